@@ -2,22 +2,65 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { pathToFileURL } from 'node:url';
+import { createRequire } from 'node:module';
 
 import {
   injectDefaultsIntoDts,
   assertDefaultsInDts,
-  listInterfaceProps,
+  checkDefaultsCoverage,
+  findMemberHead,
+  regexLocator,
+  createAstLocator,
+  formatDefaultLiteral,
 } from './dts-ops/index.js';
 
-import type { DocDefaultsConfig, Options, PreferredTag, RunOptions, TsMode } from './types.js';
-import { loadModuleSmart } from './infra/source-loader.js';
-import { findNearestTsconfig, loadTsProject } from './infra/tsconfig-resolver.js';
-import { resolveOptions } from './infra/config.js';
-import { extractDeclarationBlock } from './dts-ops/dry-run-extract.js';
+import type {
+  AssertResult,
+  AssertTargetResult,
+  ConfigFormat,
+  CoverageConfig,
+  CoveragePolicy,
+  DocDefaultsConfig,
+  DoctorCheck,
+  DoctorResult,
+  DoctorStatus,
+  InitOptions,
+  InitResult,
+  InjectResult,
+  InjectTargetResult,
+  ListResult,
+  LoadedModule,
+  ListTargetResult,
+  LoadedTsProject,
+  LocatorKind,
+  Options,
+  PreferredTag,
+  PropLocator,
+  RunOptions,
+  SyncMode,
+  TargetConfig,
+  TsMode,
+  ValueSerializer,
+} from './types.js';
+import { loadModuleResolved, loadModuleSmart, loadTypeScriptFrom, resolveTsxFrom } from './infra/source-loader.js';
+import { findNearestTsconfig, inferBuiltJsForTs, inferDtsFromSrc, loadTsProject } from './infra/tsconfig-resolver.js';
+import { everyTargetSetsDefaults, resolveOptions } from './infra/config.js';
+import { colorizeDiff, createUnifiedDiff } from './infra/diff.js';
+import {
+  findDeclaredTypes,
+  findDefaultsExports,
+  listSourceFiles,
+  matchDefaultsToTypes,
+  renderConfigFile,
+  type DeclaredType,
+  type DefaultsExport,
+} from './infra/scaffold.js';
+import { collectImportGraph, type WatchPlan } from './infra/watch.js';
+import { detectModuleSyntax, findExtensionlessImports, readPackageType } from './infra/doctor.js';
 import { createLogger, defaultLogger } from './infra/log.js';
-import { CONFIG_FILENAME_CANDIDATES, LOG_PREFIX } from './constants.js';
-import { SddError } from './errors.js';
-import { getRelativePath } from './utils.js';
+import { CONFIG_FILENAME_CANDIDATES } from './constants.js';
+import { SddError, stripLogPrefix } from './errors.js';
+import { getRelativePath, offsetToPosition } from './utils.js';
 
 
 // ===== Public API =====
@@ -26,57 +69,43 @@ import { getRelativePath } from './utils.js';
  * Injects runtime default values into TypeScript declaration files.
  * @param configPath - Path to configuration file
  * @param runOptions - Runtime options
- * @returns Promise resolving to injection results
+ * @returns Promise resolving to the total update count and per-file results (changed members with
+ *          their before/after literals, members missing from the declaration); with `dryRun`, also
+ *          the unified diff of every file that would change (`patch`)
  * @throws {SddError} When config is invalid or files cannot be accessed
  */
-export async function inject(configPath?: string, runOptions: RunOptions = {}) {
+export async function inject(configPath?: string, runOptions: RunOptions = {}): Promise<InjectResult> {
   const options = resolveOptions(runOptions);
   const logger = createLogger(options);
   const { config, repoRoot } = await loadConfigResolved(configPath, options);
   const tag: PreferredTag = options.tag ?? config.tag ?? 'default';
+  const locator = createLocator(config.locator, repoRoot);
 
   // Resolve TypeScript paths (rootDir/outDir/declarationDir)
   const tsconfigPathAbs = await resolveTsconfigPathAbs(repoRoot, config.tsconfig);
   const ts = loadTsProject(tsconfigPathAbs);
 
-  // Load defaults module (built-js preferred, TS fallback via tsx)
-  const defaultsModulePathAbs = validatePathWithinRoot(repoRoot, config.defaults, 'defaults');
-  const defaultsModule = await loadModuleSmart(defaultsModulePathAbs, {
-    repoRoot,
-    tsRootDir: ts.rootDir,
-    tsOutDir: ts.outDir,
-    tsDeclarationDir: ts.declarationDir,
-    tsMode: options.tsMode,
-    quiet: options.quiet,
-    debug: options.debugPaths,
-  });
-
-  if (options.debugPaths) {
-    logger.log(String({
-      projectRoot: ts.projectRoot,
-      tsconfigPathAbs,
-      rootDir: ts.rootDir,
-      outDir: ts.outDir,
-      declarationDir: ts.declarationDir,
-      tsMode: options.tsMode,
-    }));
-  }
+  const loadDefaults = createDefaultsLoader(repoRoot, ts, options);
+
+  logger.dbg(
+    `projectRoot=${ts.projectRoot} tsconfig=${tsconfigPathAbs ?? '(none)'} rootDir=${ts.rootDir ?? '(none)'} ` +
+    `outDir=${ts.outDir ?? '(none)'} declarationDir=${ts.declarationDir ?? '(none)'} tsMode=${options.tsMode}`
+  );
 
   let totalUpdates = 0;
-  for (const target of config.targets) {
+  const targetResults: InjectTargetResult[] = [];
+  // dryRun: the would-be contents of each touched file, so later targets build on earlier edits
+  const pending = new Map<string, { before: string; after: string }>();
+  const color = options.color ?? (!!process.stdout.isTTY && !process.env.NO_COLOR);
+  for (const target of selectTargets(config, options.targets)) {
     const name = target.name ?? target.interface;
 
     const srcAbs = validatePathWithinRoot(repoRoot, target.types, 'types');
-    const dtsPathAbs = await resolveDtsPathAbs({
-      repoRoot,
-      tsRootDir: ts.rootDir,
-      tsDeclarationDir: ts.declarationDir,
-      typesPath: target.types,
-      dtsPath: target.dts,
-    });
+    const files = await resolveTargetFiles({ repoRoot, ts, target, mode: options.mode ?? target.mode ?? config.mode });
 
     // defaults object for this target (flat { [prop]: value })
-    const defaultsObj = selectDefaults(defaultsModule, target.member);
+    const defaultsModulePathAbs = validatePathWithinRoot(repoRoot, targetDefaults(config, target), 'defaults');
+    const defaultsObj = selectDefaults((await loadDefaults(defaultsModulePathAbs)).module, target.member);
     if (!defaultsObj || typeof defaultsObj !== 'object') {
       throw new SddError(
         'DEFAULTS_SYMBOL_NOT_FOUND',
@@ -85,71 +114,95 @@ export async function inject(configPath?: string, runOptions: RunOptions = {}) {
       );
     }
 
-    // read .d.ts
-    let dtsText: string;
-    try {
-      dtsText = await fs.readFile(dtsPathAbs, 'utf8');
-    } catch (err: any) {
-      throw new SddError(
-        'DTS_NOT_FOUND',
-        `${name}: .d.ts not found at ${getRelativePath(repoRoot, dtsPathAbs)}`,
-        { details: { context: { path: dtsPathAbs } }, cause: err },
-      );
-    }
+    for (const file of files) {
+      const fileText = pending.get(file.abs)?.after ?? await readTargetFile(name, file, repoRoot);
+      const where = file.kind === 'source' ? ' (source)' : '';
 
-    // Ensure the requested interface exists; tests expect rejection when missing
-    const props = listInterfaceProps(dtsText, target.interface);
-    if (!props || props.length === 0) {
-      throw new SddError(
-        'INTERFACE_NOT_FOUND',
-        `${name}: Interface "${target.interface}" not found in ${getRelativePath(repoRoot, dtsPathAbs)}`,
-        { details: { context: { path: dtsPathAbs } } },
-      );
-    }
+      // Ensure the requested interface exists; tests expect rejection when missing
+      const found = target.kind === 'function'
+        ? locator.findFunction(fileText, target.interface, { param: target.param })
+        : locator.listProps(fileText, target.interface, { kind: target.kind, constructorParam: target.constructorParam })[0];
+      if (!found) {
+        const label = { interface: 'Interface', class: 'Class', function: 'Function' }[target.kind ?? 'interface'];
+        throw new SddError(
+          'INTERFACE_NOT_FOUND',
+          `${name}: ${label} "${target.interface}" not found in ${getRelativePath(repoRoot, file.abs)}`,
+          { details: { context: { path: file.abs } } },
+        );
+      }
 
-    // inject
-    const { updatedText, updatedCount, missing } = injectDefaultsIntoDts({
-      dtsText,
-      interfaceName: target.interface,
-      defaults: defaultsObj as Record<string, unknown>,
-      preferredTag: tag,
-    });
+      // inject
+      const { updatedText, updatedCount, missing, changes, pruned = [] } = injectDefaultsIntoDts({
+        dtsText: fileText,
+        interfaceName: target.interface,
+        defaults: defaultsObj as Record<string, unknown>,
+        preferredTag: tag,
+        inlineWidth: config.inlineWidth,
+        recursive: target.recursive,
+        locator,
+        kind: target.kind,
+        constructorParam: target.constructorParam,
+        param: target.param,
+        serialize: targetSerializer(config, target),
+        overrides: targetOverrides(config, target),
+        prune: options.prune ?? config.prune ?? false,
+      });
 
-    if (missing.length) {
-      for (const m of missing) {
-        logger.warn(`${name}: property "${m.prop}" not found in interface ${target.interface}`);
+      if (missing.length) {
+        for (const m of missing) {
+          logger.warn(`${name}: property "${m.prop}" not found in ${target.kind ?? 'interface'} ${target.interface}${where}`);
+        }
+      }
+
+      for (const p of pruned) {
+        logger.log(`${name}: pruned stale default of ${target.interface}.${p.prop}${where}`);
       }
-    }
 
-    if (updatedCount > 0) {
-      totalUpdates += updatedCount;
-      if (!options.dryRun) {
-        await fs.writeFile(dtsPathAbs, updatedText, 'utf8');
+      if (updatedCount > 0) {
+        totalUpdates += updatedCount;
+        if (!options.dryRun) {
+          await fs.writeFile(file.abs, updatedText, 'utf8');
+        } else {
+          pending.set(file.abs, { before: pending.get(file.abs)?.before ?? fileText, after: updatedText });
+          const diff = createUnifiedDiff(fileText, updatedText, toPatchPath(repoRoot, file.abs));
+          logger.log(`${name}: would update ${file.kind === 'source' ? 'source' : '.d.ts'} (dryRun):\n${(color ? colorizeDiff(diff) : diff).trimEnd()}\n`, true);
+        }
+        logger.log(`${name}: injected ${updatedCount} ${target.kind === 'function' ? '@param' : `@${tag}`} update(s) → ${getRelativePath(repoRoot, file.abs)}`);
+
       } else {
-        logger.log(`--- ${LOG_PREFIX} ${name}: updated .d.ts (dryRun) ---\n`, true);
-        logger.log(extractDeclarationBlock(updatedText, target.interface) ?? '(not found)', true);
-        logger.log(`\n--- end of ${name} ---\n`, true);
+        logger.log(`${name}: up-to-date${where}`);
       }
-      logger.log(`${name}: injected ${updatedCount} @${tag} update(s) → ${getRelativePath(repoRoot, dtsPathAbs)}`);
-      
-    } else {
-      logger.log(`${name}: up-to-date`);
-    }
 
-    logger.dbg(
-      `target="${name}" src=${getRelativePath(repoRoot, srcAbs)} dts=${getRelativePath(repoRoot, dtsPathAbs)} tsconfig=${tsconfigPathAbs}`
-    );
+      targetResults.push({
+        name,
+        interfaceName: target.interface,
+        dtsPath: getRelativePath(repoRoot, file.abs),
+        file: file.kind,
+        updated: updatedCount,
+        changes,
+        missing: missing.map(({ prop }) => ({ prop })),
+      });
+
+      logger.dbg(
+        `target="${name}" src=${getRelativePath(repoRoot, srcAbs)} ${file.kind}=${getRelativePath(repoRoot, file.abs)} tsconfig=${tsconfigPathAbs}`
+      );
+    }
   }
 
-  return { updated: totalUpdates };
+  const result: InjectResult = { updated: totalUpdates, projectLabel: config.label, targetResults };
+  if (options.dryRun) {
+    result.patch = [...pending].map(([abs, { before, after }]) => createUnifiedDiff(before, after, toPatchPath(repoRoot, abs))).join('');
+  }
+  return result;
 }
 
 /**
  * Verifies that JSDoc @default tags in declaration files match runtime default values.
  * @param configPath - Path to configuration file. If omitted, searches upward from cwd
  * @param options - Runtime options for controlling behavior
- * @returns Promise that resolves if all defaults match
- * @throws {SddError} When any @default tag doesn't match the runtime value
+ * @returns Promise resolving to per-target results (mismatches and, when enabled, coverage findings)
+ * @throws {SddError} When any @default tag doesn't match the runtime value (`ASSERT_FAILED`; the
+ *         {@link AssertResult} is attached as `details.result`)
  * @throws {SddError} When configuration is invalid or required files cannot be found
  * @example
  * // Check defaults are in sync
@@ -158,36 +211,24 @@ export async function inject(configPath?: string, runOptions: RunOptions = {}) {
  * // Use in CI to ensure documentation stays current
  * await assert(undefined, { quiet: true });
  */
-export async function assert(configPath?: string, runOptions: RunOptions = {}) {
+export async function assert(configPath?: string, runOptions: RunOptions = {}): Promise<AssertResult> {
   const options = resolveOptions(runOptions);
   const logger = createLogger(options);
   const { config, repoRoot } = await loadConfigResolved(configPath, options);
+  const locator = createLocator(config.locator, repoRoot);
   const tsconfigPathAbs = await resolveTsconfigPathAbs(repoRoot, config.tsconfig);
   const ts = loadTsProject(tsconfigPathAbs);
 
-  const defaultsModulePathAbs = validatePathWithinRoot(repoRoot, config.defaults, 'defaults');
-  const defaultsModule = await loadModuleSmart(defaultsModulePathAbs, {
-    repoRoot,
-    tsRootDir: ts.rootDir,
-    tsOutDir: ts.outDir,
-    tsDeclarationDir: ts.declarationDir,
-    tsMode: options.tsMode,
-    quiet: options.quiet,
-    debug: options.debugPaths,
-  });
-
-  let anyMismatch = false;
-  for (const target of config.targets) {
+  const loadDefaults = createDefaultsLoader(repoRoot, ts, options);
+
+  const coverage = resolveCoverage(config.coverage);
+  const targetResults: AssertTargetResult[] = [];
+  for (const target of selectTargets(config, options.targets)) {
     const name = target.name ?? target.interface;
-    const dtsPathAbs = await resolveDtsPathAbs({
-      repoRoot,
-      tsRootDir: ts.rootDir,
-      tsDeclarationDir: ts.declarationDir,
-      typesPath: target.types,
-      dtsPath: target.dts,
-    });
+    const files = await resolveTargetFiles({ repoRoot, ts, target, mode: options.mode ?? target.mode ?? config.mode });
 
-    const defaultsObj = selectDefaults(defaultsModule, target.member);
+    const defaultsModulePathAbs = validatePathWithinRoot(repoRoot, targetDefaults(config, target), 'defaults');
+    const defaultsObj = selectDefaults((await loadDefaults(defaultsModulePathAbs)).module, target.member);
     if (!defaultsObj || typeof defaultsObj !== 'object') {
       throw new SddError(
         'DEFAULTS_SYMBOL_NOT_FOUND',
@@ -196,45 +237,538 @@ export async function assert(configPath?: string, runOptions: RunOptions = {}) {
       );
     }
 
-    let dtsText: string;
+    const overrides = targetOverrides(config, target);
+    for (const file of files) {
+      const fileText = await readTargetFile(name, file, repoRoot);
+      const where = file.kind === 'source' ? ' (source)' : '';
+
+      const { ok, mismatches, checked } = assertDefaultsInDts({
+        dtsText: fileText,
+        interfaceName: target.interface,
+        defaults: defaultsObj as Record<string, unknown>,
+        recursive: target.recursive,
+        strict: options.strict ?? config.strict ?? false,
+        locator,
+        kind: target.kind,
+        constructorParam: target.constructorParam,
+        param: target.param,
+        serialize: targetSerializer(config, target),
+        overrides,
+      });
+
+      if (!ok) {
+        for (const m of mismatches) {
+          const place = `${name}: ${target.interface}.${m.prop}${where}`;
+          const what = target.kind === 'function' ? '@param default' : '@default';
+          const msg = m.found
+            ? `expected ${what} ${m.expected} (found ${m.found})`
+            : `expected ${what} ${m.expected} (missing)`;
+          logger.error(`${place} ${msg}`);
+        }
+      }
+
+      const targetResult: AssertTargetResult = {
+        name,
+        interfaceName: target.interface,
+        dtsPath: getRelativePath(repoRoot, file.abs),
+        file: file.kind,
+        ok,
+        missing: mismatches.map(({ prop, expected, found }) => {
+          const headStart = findMemberHead(locator, fileText, target.interface, prop, {
+            kind: target.kind,
+            constructorParam: target.constructorParam,
+            param: target.param,
+          });
+          return { prop, expected, found, ...(headStart === undefined ? {} : offsetToPosition(fileText, headStart)) };
+        }),
+        checked,
+      };
+
+      if (coverage.undocumented !== 'off' || coverage.stale !== 'off') {
+        const { undocumented, stale } = checkDefaultsCoverage({
+          dtsText: fileText,
+          interfaceName: target.interface,
+          defaults: defaultsObj as Record<string, unknown>,
+          recursive: target.recursive,
+          locator,
+          kind: target.kind,
+          constructorParam: target.constructorParam,
+          overrides,
+        });
+        const report = (policy: CoveragePolicy, message: string) => {
+          if (policy === 'error') {
+            targetResult.ok = false;
+            logger.error(message);
+          } else if (policy === 'warn') {
+            logger.warn(message);
+          }
+        };
+        for (const prop of undocumented) {
+          report(coverage.undocumented, `${name}: ${target.interface}.${prop}${where} is optional but has no runtime default`);
+        }
+        for (const { prop, found } of stale) {
+          report(coverage.stale, `${name}: ${target.interface}.${prop}${where} documents @default ${found} but has no runtime default (stale)`);
+        }
+        targetResult.coverage = {
+          undocumented: coverage.undocumented === 'off' ? [] : undocumented,
+          stale: coverage.stale === 'off' ? [] : stale,
+        };
+      }
+      targetResults.push(targetResult);
+    }
+  }
+
+  const result: AssertResult = { ok: targetResults.every((r) => r.ok), projectLabel: config.label, targetResults };
+  if (!result.ok) {
+    throw new SddError(
+      'ASSERT_FAILED',
+      'assert failed',
+      { details: { result } },
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Fails when `inject` would change anything: runs the inject pipeline in memory (as with
+ * `dryRun`, printing the diff) and rejects unless every file is already up to date. Unlike
+ * {@link assert}, this also catches rewrites that do not change a literal, such as tag
+ * normalization (`@defaultValue` → `@default`) or re-layout to `inlineWidth`.
+ * @param configPath - Path to configuration file. If omitted, searches upward from cwd
+ * @param runOptions - Runtime options (`dryRun` is implied)
+ * @returns Promise resolving to the (empty) inject result when nothing would change
+ * @throws {SddError} `CHECK_FAILED` when a file would change; the {@link InjectResult} (with its
+ *         `patch`) is attached as `details.result`
+ * @throws {SddError} When configuration is invalid or required files cannot be found
+ */
+export async function check(configPath?: string, runOptions: RunOptions = {}): Promise<InjectResult> {
+  const result = await inject(configPath, { ...runOptions, dryRun: true });
+  if (result.patch) {
+    const files = new Set(result.targetResults.filter((r) => r.updated > 0).map((r) => r.dtsPath));
+    throw new SddError(
+      'CHECK_FAILED',
+      `check failed: ${result.updated} update(s) pending in ${[...files].join(', ')}`,
+      { details: { result } },
+    );
+  }
+  return result;
+}
+
+/**
+ * Explains how each target resolves, without writing anything: the config and tsconfig used,
+ * the defaults modules that are actually imported (built JS, `.cjs` twin, `tsx` or JSON), and per
+ * target its files, member path and how the defaults keys match the declared members.
+ * Per-target problems (missing `.d.ts`, unknown defaults symbol, ...) are reported in the result
+ * rather than thrown.
+ * @param configPath - Path to configuration file. If omitted, searches upward from cwd
+ * @param runOptions - Runtime options (`targets` and `mode` apply)
+ * @returns Promise resolving to the resolved settings and one entry per target
+ * @throws {SddError} When configuration is invalid or cannot be found
+ */
+export async function list(configPath?: string, runOptions: RunOptions = {}): Promise<ListResult> {
+  const options = resolveOptions(runOptions);
+  const { config, repoRoot, configPathAbs } = await loadConfigResolved(configPath, options);
+  const locator = createLocator(config.locator, repoRoot);
+  const tsconfigPathAbs = await resolveTsconfigPathAbs(repoRoot, config.tsconfig);
+  const ts = loadTsProject(tsconfigPathAbs);
+  const rel = (abs: string | undefined) => (abs ? getRelativePath(repoRoot, abs) : undefined);
+
+  const loadDefaults = createDefaultsLoader(repoRoot, ts, { ...options, quiet: true });
+  const defaults: ListResult['defaults'] = [];
+  const targets: ListTargetResult[] = [];
+  for (const target of selectTargets(config, options.targets)) {
+    const mode = options.mode ?? target.mode ?? config.mode ?? 'dts';
+    const entry: ListTargetResult = {
+      name: target.name ?? target.interface,
+      interfaceName: target.interface,
+      kind: target.kind ?? 'interface',
+      defaults: targetDefaults(config, target),
+      member: target.member,
+      mode,
+      types: target.types,
+      files: [],
+      matched: [],
+      keysWithoutMember: [],
+      membersWithoutKey: [],
+      problems: [],
+    };
+    targets.push(entry);
+
+    try {
+      for (const file of await resolveTargetFiles({ repoRoot, ts, target, mode })) {
+        const exists = await pathExists(file.abs);
+        entry.files.push({ file: file.kind, path: rel(file.abs)!, inferred: file.kind === 'dts' && !target.dts, exists });
+        if (!exists) entry.problems.push(`${file.kind === 'dts' ? '.d.ts' : 'source'} not found: ${rel(file.abs)}`);
+      }
+    } catch (err: any) {
+      entry.problems.push(stripLogPrefix(err?.message ?? String(err)));
+    }
+
+    const known = defaults.some((d) => d.path === entry.defaults);
+    let defaultsModule: unknown;
     try {
-      dtsText = await fs.readFile(dtsPathAbs, 'utf8');
+      const loaded = await loadDefaults(validatePathWithinRoot(repoRoot, entry.defaults, 'defaults'));
+      defaultsModule = loaded.module;
+      if (!known) defaults.push({ path: entry.defaults, loadedPath: rel(loaded.loadedPath), loader: loaded.loader });
     } catch (err: any) {
-      throw new SddError(
-        'DTS_NOT_FOUND',
-        `${name}: .d.ts not found at ${getRelativePath(repoRoot, dtsPathAbs)}`,
-        { details: { context: { path: dtsPathAbs } }, cause: err },
-      );
+      if (!known) defaults.push({ path: entry.defaults, error: stripLogPrefix(err?.message ?? String(err)) });
+    }
+    if (defaultsModule !== undefined) {
+      const defaultsObj = selectDefaults(defaultsModule, target.member);
+      if (defaultsObj && typeof defaultsObj === 'object') entry.keys = Object.keys(defaultsObj);
+      else entry.problems.push(`defaults symbol "${target.member}" not found or not an object in ${entry.defaults}`);
     }
 
-    const { ok, mismatches } = assertDefaultsInDts({
-      dtsText,
-      interfaceName: target.interface,
-      defaults: defaultsObj as Record<string, unknown>,
+    const readable = entry.files.find((f) => f.exists);
+    if (readable) {
+      const text = await fs.readFile(path.resolve(repoRoot, readable.path), 'utf8');
+      const members = target.kind === 'function'
+        ? locator.findFunction(text, target.interface, { param: target.param })?.params
+        : locator.listProps(text, target.interface, { kind: target.kind, constructorParam: target.constructorParam }).map((p) => p.name);
+      if (members?.length) entry.members = [...new Set(members)];
+      else entry.problems.push(`${entry.kind} "${target.interface}" not found in ${readable.path}`);
+    }
+
+    if (entry.keys && entry.members) {
+      const { keys, members } = entry;
+      entry.matched = keys.filter((k) => members.includes(k));
+      entry.keysWithoutMember = keys.filter((k) => !members.includes(k));
+      entry.membersWithoutKey = members.filter((m) => !keys.includes(m));
+    }
+  }
+
+  return {
+    projectLabel: config.label,
+    configPath: rel(configPathAbs)!,
+    tsconfig: rel(tsconfigPathAbs),
+    rootDir: rel(ts.rootDir),
+    outDir: rel(ts.outDir),
+    declarationDir: rel(ts.declarationDir),
+    tsMode: options.tsMode ?? 'auto',
+    defaults,
+    targets,
+  };
+}
+
+/**
+ * Checks the project for the causes of most load failures (see the README's troubleshooting
+ * section), without writing anything: the config, tsconfig `rootDir`/`outDir`/`declarationDir`,
+ * and for each defaults module the selected targets use: its built JS (for TypeScript), its
+ * syntax vs the package `type` and its extensionless ESM imports; then `tsx`, the `ast` locator,
+ * loading each module, and each target's files and members (as `list` resolves them).
+ * @param configPath - Path to config file (searched upward from `repoRoot` when omitted)
+ * @param runOptions - Runtime options; `targets` and `mode` narrow the module and target checks
+ * @returns Promise resolving to the checklist; `ok` is `false` when a check failed
+ * @throws {SddError} `CLI_USAGE` when `targets` lists an unknown label
+ */
+export async function doctor(configPath?: string, runOptions: RunOptions = {}): Promise<DoctorResult> {
+  const options = resolveOptions(runOptions);
+  const checks: DoctorCheck[] = [];
+  const result = (projectLabel?: string): DoctorResult => ({ ok: !checks.some((c) => c.status === 'fail'), projectLabel, checks });
+
+  let loaded: Awaited<ReturnType<typeof loadConfigResolved>>;
+  try {
+    loaded = await loadConfigResolved(configPath, { ...options, quiet: true });
+  } catch (err: any) {
+    checks.push({
+      id: 'config',
+      status: 'fail',
+      message: stripLogPrefix(err?.message ?? String(err)),
+      fix: err?.code === 'CONFIG_NOT_FOUND' ? 'Run `sync-doc-defaults init` to scaffold one, or pass --config <file>' : undefined,
     });
+    return result();
+  }
+  const { config, repoRoot, configPathAbs } = loaded;
+  const rel = (abs: string) => getRelativePath(repoRoot, abs);
+  const targets = selectTargets(config, options.targets);
+  checks.push({ id: 'config', status: 'pass', message: `${rel(configPathAbs)} (${config.targets.length} target(s))` });
+
+  // .d.ts paths are inferred from rootDir/declarationDir for targets without `dts`
+  const tsconfigPathAbs = await resolveTsconfigPathAbs(repoRoot, config.tsconfig);
+  const ts = loadTsProject(tsconfigPathAbs);
+  const inferring = targets
+    .filter((t) => !t.dts && (options.mode ?? t.mode ?? config.mode ?? 'dts') !== 'source')
+    .map((t) => t.name ?? t.interface);
+  const setDts = `set "dts" on ${inferring.join(', ')}`;
+  if (!tsconfigPathAbs || !(await pathExists(tsconfigPathAbs))) {
+    checks.push(inferring.length
+      ? { id: 'tsconfig', status: 'fail', message: `no tsconfig found to infer the .d.ts of ${inferring.join(', ')}`, fix: `Add a tsconfig.json with "rootDir" and "declarationDir" (or set "tsconfig" in the config), or ${setDts}` }
+      : { id: 'tsconfig', status: 'pass', message: 'none found (not needed to locate declarations: every target sets "dts")' });
+  } else {
+    const dirs = (['rootDir', 'outDir', 'declarationDir'] as const).map((key) => `${key} ${ts[key] ? rel(ts[key]) : '-'}`).join(', ');
+    checks.push(inferring.length && (!ts.rootDir || !ts.declarationDir)
+      ? { id: 'tsconfig', status: 'fail', message: `${rel(tsconfigPathAbs)} (${dirs}) cannot locate the .d.ts of ${inferring.join(', ')}`, fix: `Set "rootDir" and "declarationDir" in its compilerOptions, or ${setDts}` }
+      : { id: 'tsconfig', status: 'pass', message: `${rel(tsconfigPathAbs)} (${dirs})` });
+  }
 
-    if (!ok) {
-      anyMismatch = true;
-      for (const m of mismatches) {
-        const place = `${name}: ${target.interface}.${m.prop}`;
-        const msg = m.found
-          ? `expected @default ${m.expected} (found ${m.found})`
-          : `expected @default ${m.expected} (missing)`;
-        logger.error(`${place} ${msg}`);
+  // a TypeScript defaults module is loaded from its built JS, else from source via tsx
+  const tsxPath = resolveTsxFrom(repoRoot);
+  const tsModules: string[] = [];
+  const unbuilt: string[] = [];
+  for (const modulePath of [...new Set(targets.map((t) => targetDefaults(config, t)))]) {
+    const moduleAbs = validatePathWithinRoot(repoRoot, modulePath, 'defaults');
+    const isTs = /\.tsx?$/i.test(moduleAbs);
+    const tsxFallback = isTs && options.tsMode !== 'off' && !!tsxPath;
+    const loadStatus: DoctorStatus = tsxFallback ? 'warn' : 'fail';
+    const loadFix = tsxFallback ? ' (until then, the source is loaded via tsx)' : '';
+    const moduleChecks: DoctorCheck[] = [];
+    let jsFile = /\.[cm]?js$/i.test(moduleAbs) && (await pathExists(moduleAbs)) ? moduleAbs : undefined;
+    if (isTs) {
+      tsModules.push(modulePath);
+      const built = inferBuiltJsForTs({
+        tsRootDir: ts.rootDir,
+        tsOutDir: ts.outDir,
+        tsDeclarationDir: ts.declarationDir,
+        repoRoot,
+        defaultsModulePathAbs: moduleAbs,
+      });
+      if (!built) {
+        moduleChecks.push({ id: 'built-js', status: loadStatus, message: `cannot infer the built JS of ${modulePath}`, fix: `Set "rootDir" (containing ${modulePath}) and "outDir" in tsconfig${loadFix}` });
+      } else if (!(await pathExists(built))) {
+        moduleChecks.push({ id: 'built-js', status: loadStatus, message: `${rel(built)} not found`, fix: `Build the project (e.g. \`tsc\`)${loadFix}` });
+      } else {
+        moduleChecks.push({ id: 'built-js', status: 'pass', message: `${modulePath} → ${rel(built)}` });
+        jsFile = built;
+      }
+    }
+
+    if (jsFile) {
+      const ext = path.extname(jsFile).toLowerCase();
+      const pkg = readPackageType(jsFile);
+      const pkgLabel = pkg.packageJson ? rel(pkg.packageJson) : 'no package.json';
+      const isEsm = (file: string) => /\.mjs$/i.test(file) || (/\.js$/i.test(file) && readPackageType(file).type === 'module');
+      const loadedAs = ext === '.mjs' ? 'ESM (.mjs)' : ext === '.cjs' ? 'CommonJS (.cjs)' : `${pkg.type === 'module' ? 'ESM' : 'CommonJS'} ("type" from ${pkgLabel})`;
+      const syntax = detectModuleSyntax(await fs.readFile(jsFile, 'utf8'));
+      if (syntax === 'esm' && !isEsm(jsFile)) {
+        // recent Node versions re-parse it as ESM (with a warning); older ones fail
+        moduleChecks.push({ id: 'package-type', status: 'warn', message: `${rel(jsFile)} uses ESM syntax but is loaded as ${loadedAs}`, fix: `Add "type": "module" to the nearest package.json, or rename the file to ".mjs"${loadFix}` });
+      } else if (syntax === 'cjs' && isEsm(jsFile)) {
+        moduleChecks.push({ id: 'package-type', status: loadStatus, message: `${rel(jsFile)} uses CommonJS syntax but is loaded as ${loadedAs}`, fix: `Emit ESM (tsconfig "module": "NodeNext"), or rename the file to ".cjs"${loadFix}` });
+      } else {
+        moduleChecks.push({ id: 'package-type', status: 'pass', message: `${rel(jsFile)} is loaded as ${loadedAs}` });
       }
+
+      if (isEsm(jsFile) || syntax === 'esm') {
+        const offenders: string[] = [];
+        for (const file of collectImportGraph([jsFile]).filter((f) => /\.m?js$/i.test(f))) {
+          const text = await fs.readFile(file, 'utf8');
+          if (!isEsm(file) && detectModuleSyntax(text) !== 'esm') continue;
+          for (const specifier of findExtensionlessImports(text)) offenders.push(`${specifier} in ${rel(file)}`);
+        }
+        moduleChecks.push(offenders.length
+          ? { id: 'esm-imports', status: loadStatus, message: `relative import(s) without an extension: ${offenders.join(', ')}`, fix: `Add ".js" to relative imports in the source (e.g. "./util.js"); tsc keeps them as written${loadFix}` }
+          : { id: 'esm-imports', status: 'pass', message: `${rel(jsFile)}: relative imports have extensions` });
+      }
+    }
+    if (isTs && (!jsFile || moduleChecks.some((c) => c.status === 'fail'))) unbuilt.push(modulePath);
+    checks.push(...moduleChecks);
+  }
+
+  const tsConfigFile = /\.tsx?$/i.test(configPathAbs);
+  if (!tsModules.length && !tsConfigFile) {
+    checks.push({ id: 'tsx', status: 'pass', message: 'not needed (no TypeScript module to load)' });
+  } else if (tsxPath) {
+    checks.push({ id: 'tsx', status: 'pass', message: `resolves to ${rel(tsxPath)}${options.tsMode === 'off' ? ' (unused: ts mode is off)' : ''}` });
+  } else if (options.tsMode === 'on' || (unbuilt.length && options.tsMode !== 'off')) {
+    const needed = options.tsMode === 'on' ? [...tsModules, ...(tsConfigFile ? [rel(configPathAbs)] : [])] : unbuilt;
+    checks.push({ id: 'tsx', status: 'fail', message: `not installed in the target project, and needed to load ${needed.join(', ')}`, fix: 'pnpm add -D tsx (in the target project, not globally)' });
+  } else {
+    checks.push({ id: 'tsx', status: 'pass', message: 'not installed (not needed while the built JS loads)' });
+  }
+
+  let locatorOk = true;
+  if (config.locator === 'ast') {
+    locatorOk = !!loadTypeScriptFrom(repoRoot);
+    checks.push(locatorOk
+      ? { id: 'locator', status: 'pass', message: 'ast (typescript resolves from the project)' }
+      : { id: 'locator', status: 'fail', message: 'locator is "ast" but "typescript" is not installed in the target project', fix: 'pnpm add -D typescript, or set locator: "regex"' });
+  }
+  if (!locatorOk) return result(config.label);
+
+  const listed = await list(configPathAbs, { ...runOptions, quiet: true });
+  for (const defaults of listed.defaults) {
+    if (defaults.error) {
+      const [message, ...rest] = defaults.error.split('\n').map((line) => line.trim()).filter(Boolean);
+      const fix = rest.filter((line) => !line.endsWith(':')).map((line) => line.replace(/^•\s*/, '')).join('\n');
+      checks.push({ id: 'defaults', status: 'fail', message, fix: fix || undefined });
+    } else {
+      checks.push({ id: 'defaults', status: 'pass', message: `${defaults.path}${defaults.loadedPath === defaults.path ? '' : ` → ${defaults.loadedPath}`} (${defaults.loader})` });
+    }
+  }
+
+  for (const t of listed.targets) {
+    const moduleLoaded = !listed.defaults.find((d) => d.path === t.defaults)?.error;
+    const fixes = [
+      ...(!t.files.length ? [`Set "dts" on the target, or "rootDir" and "declarationDir" in tsconfig`] : []),
+      ...(t.files.some((f) => !f.exists) ? ['Build the project (e.g. `tsc`) so the declarations exist, or correct "dts"/"types"'] : []),
+      ...(moduleLoaded && !t.keys ? [`Check "member" against the exports of ${t.defaults}`] : []),
+      ...(t.files.some((f) => f.exists) && !t.members ? [`Check "interface" and "kind" against the declarations`] : []),
+    ];
+    const files = t.files.map((f) => f.path).join(', ');
+    if (t.problems.length) {
+      checks.push({ id: 'target', target: t.name, status: 'fail', message: t.problems.join('\n'), fix: fixes.join('\n') || undefined });
+    } else if (t.keysWithoutMember.length) {
+      checks.push({ id: 'target', target: t.name, status: 'warn', message: `${files}: no member for key(s) ${t.keysWithoutMember.join(', ')}`, fix: `Declare them on ${t.interfaceName}, or remove them from ${t.member}` });
+    } else if (!t.keys) {
+      checks.push({ id: 'target', target: t.name, status: 'pass', message: `${files}: ${t.interfaceName} found (keys unknown: the defaults module did not load)` });
+    } else {
+      checks.push({ id: 'target', target: t.name, status: 'pass', message: `${files}: ${t.matched.length} key(s) documented by ${t.interfaceName}` });
     }
   }
+  return result(config.label);
+}
+
+/**
+ * Scaffolds a config for the project at `repoRoot`. Sources under the tsconfig `rootDir` (else
+ * `src/`, else the root) are scanned for `export const *DEFAULTS* = { ... }` objects, and each
+ * is paired with the exported interface or type alias declaring all of its keys. Each match
+ * becomes a target (with the `.d.ts` inferred from tsconfig when possible); the module with the
+ * most matches becomes the config's `defaults`, and targets of other modules set their own.
+ * @param runOptions - Format of the file, `force` to overwrite, `dryRun` to only render it
+ * @returns Promise resolving to the written path, the config and the exports that were skipped
+ * @throws {SddError} `CONFIG_EXISTS` when `repoRoot` already has a config and `force` is not set
+ * @throws {SddError} `DEFAULTS_SYMBOL_NOT_FOUND` when no defaults export matches a declared type
+ */
+export async function init(runOptions: InitOptions = {}): Promise<InitResult> {
+  const options = resolveOptions(runOptions);
+  const logger = createLogger(options);
+  const { repoRoot } = options;
+  const format: ConfigFormat = runOptions.format ?? 'mjs';
+  const configPathAbs = path.join(repoRoot, `docdefaults.config.${format}`);
+  const configPath = getRelativePath(repoRoot, configPathAbs);
+
+  const existing: string[] = [];
+  for (const name of CONFIG_FILENAME_CANDIDATES) {
+    if (await pathExists(path.join(repoRoot, name))) existing.push(name);
+  }
+  if (existing.length && !runOptions.force && !options.dryRun) {
+    throw new SddError('CONFIG_EXISTS', `${existing[0]} already exists (use --force to overwrite it)`);
+  }
 
-  if (anyMismatch) {
+  const ts = loadTsProject(findNearestTsconfig(repoRoot));
+  const srcDir = path.join(repoRoot, 'src');
+  const scanRoot = ts.rootDir ?? ((await pathExists(srcDir)) ? srcDir : repoRoot);
+  logger.dbg(`tsconfigPath=${ts.tsconfigPathAbs ?? '(none)'}`);
+  logger.dbg(`scanRoot=${scanRoot}`);
+
+  // sources needn't follow the `.d.ts` shapes the regex locator expects
+  const typescript = loadTypeScriptFrom(repoRoot);
+  const locator = typescript ? createAstLocator(typescript) : regexLocator;
+  const exports: DefaultsExport[] = [];
+  const types: DeclaredType[] = [];
+  const buildDirs = [ts.outDir, ts.declarationDir].filter((dir): dir is string => !!dir);
+  for (const fileAbs of await listSourceFiles(scanRoot, buildDirs)) {
+    const text = await fs.readFile(fileAbs, 'utf8');
+    const file = toPatchPath(repoRoot, fileAbs);
+    exports.push(...findDefaultsExports(text, file));
+    types.push(...findDeclaredTypes(text, file, locator));
+  }
+  const { candidates, unmatched } = matchDefaultsToTypes(exports, types);
+  if (!candidates.length) {
     throw new SddError(
-      'ASSERT_FAILED',
-      'assert failed',
+      'DEFAULTS_SYMBOL_NOT_FOUND',
+      `init: no exported *DEFAULTS* object under ${getRelativePath(repoRoot, scanRoot) || '.'} matches an interface declaring all of its keys`,
     );
   }
+
+  // the module with the most matches is the config's; targets of the others name their own
+  const perModule = new Map<string, number>();
+  for (const c of candidates) perModule.set(c.defaults, (perModule.get(c.defaults) ?? 0) + 1);
+  const [defaults] = [...perModule].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+
+  const skipped: InitResult['skipped'] = unmatched.map((e) => ({
+    defaults: e.file,
+    member: e.member,
+    reason: 'no exported interface or type declares all of its keys',
+  }));
+
+  const config: DocDefaultsConfig = {
+    defaults,
+    targets: candidates.map((c) => {
+      const dtsAbs = inferDtsFromSrc(ts, path.resolve(repoRoot, c.types));
+      return {
+        name: c.interface,
+        types: c.types,
+        ...(dtsAbs ? { dts: toPatchPath(repoRoot, dtsAbs) } : {}),
+        interface: c.interface,
+        ...(c.defaults !== defaults ? { defaults: c.defaults } : {}),
+        member: c.member,
+      };
+    }),
+  };
+  const contents = renderConfigFile(config, format);
+
+  if (options.dryRun) {
+    logger.log(`would write ${configPath} (dryRun):\n${contents}`, true);
+  } else {
+    await fs.writeFile(configPathAbs, contents, 'utf8');
+    logger.log(`wrote ${configPath} with ${candidates.length} target(s):`);
+    for (const c of candidates) logger.log(`  ${c.interface} (${c.types}) <- ${c.defaults === defaults ? '' : `${c.defaults} `}${c.member} [${c.keys.join(', ')}]`);
+    const shadowing = existing.find((name) => name !== path.basename(configPathAbs));
+    if (shadowing && CONFIG_FILENAME_CANDIDATES.indexOf(shadowing) < CONFIG_FILENAME_CANDIDATES.indexOf(path.basename(configPathAbs))) {
+      logger.warn(`${shadowing} is found before ${configPath} when searching for a config; remove it to use the new one`);
+    }
+  }
+  for (const s of skipped) logger.warn(`skipped ${s.member} (${s.defaults}): ${s.reason}`);
+  return { configPath, config, contents, written: !options.dryRun, skipped };
+}
+
+/**
+ * Resolves the files `watch` observes for a config: the config itself, and for each selected
+ * target the file(s) it writes and its defaults module with its built JS and their local imports.
+ * The config is re-imported on every call, so a changed config is picked up.
+ * @param configPath - Path to configuration file. If omitted, searches upward from cwd
+ * @param runOptions - Runtime options (`targets` and `mode` select the files)
+ * @returns Promise resolving to the absolute paths to watch, grouped by what they affect
+ * @throws {SddError} When configuration is invalid or cannot be found
+ */
+export async function planWatch(configPath?: string, runOptions: RunOptions = {}): Promise<WatchPlan> {
+  const options = resolveOptions(runOptions);
+  const { config, repoRoot, configPathAbs } = await loadConfigResolved(configPath, options, true);
+  const ts = loadTsProject(await resolveTsconfigPathAbs(repoRoot, config.tsconfig));
+
+  // each module with its built JS (watched even before it exists, as that is what gets loaded
+  // once built) and their local imports
+  const graphs = new Map<string, string[]>();
+  const defaultsGraph = (defaultsModulePathAbs: string) => {
+    const built = inferBuiltJsForTs({
+      tsRootDir: ts.rootDir,
+      tsOutDir: ts.outDir,
+      tsDeclarationDir: ts.declarationDir,
+      repoRoot,
+      defaultsModulePathAbs,
+    });
+    const entries = built ? [defaultsModulePathAbs, built] : [defaultsModulePathAbs];
+    return [...new Set([...entries, ...collectImportGraph(entries)])];
+  };
+
+  const targets: WatchPlan['targets'] = [];
+  for (const target of selectTargets(config, options.targets)) {
+    const files = await resolveTargetFiles({ repoRoot, ts, target, mode: options.mode ?? target.mode ?? config.mode });
+    const defaultsModulePathAbs = validatePathWithinRoot(repoRoot, targetDefaults(config, target), 'defaults');
+    if (!graphs.has(defaultsModulePathAbs)) graphs.set(defaultsModulePathAbs, defaultsGraph(defaultsModulePathAbs));
+    targets.push({ name: target.name ?? target.interface, files: files.map((file) => file.abs), defaults: graphs.get(defaultsModulePathAbs)! });
+  }
+  return { configPath: configPathAbs, targets };
 }
 
 // ===== Internals =====
 
+async function pathExists(p: string): Promise<boolean> {
+  try {
+    await fs.access(p);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** A file's path as written in patch headers: repo-relative with `/` separators. */
+function toPatchPath(repoRoot: string, fileAbs: string): string {
+  return getRelativePath(repoRoot, fileAbs).split(path.sep).join('/');
+}
+
 function validatePathWithinRoot(rootDir: string, targetPath: string, label: string): string {
   const resolved = path.resolve(rootDir, targetPath);
   const normalizedRoot = path.normalize(rootDir) + path.sep;
@@ -249,7 +783,7 @@ function validatePathWithinRoot(rootDir: string, targetPath: string, label: stri
   return resolved;
 }
 
-async function loadConfigResolved(configPath: string | undefined, options: Options) {
+async function loadConfigResolved(configPath: string | undefined, options: Options, fresh = false) {
   const logger = createLogger(options);
   const repoRoot = options.repoRoot;
   const configPathAbs = await findConfigPath(repoRoot, configPath);
@@ -266,32 +800,100 @@ async function loadConfigResolved(configPath: string | undefined, options: Optio
       tsMode: options.tsMode,
       quiet: options.quiet,
       debug: options.debugPaths,
+      silent: options.silent,
+      fresh,
     }
   );
   validateConfig(config, configPathAbs);
   logger.dbg(`configPath=${configPathAbs}`);
   logger.dbg(`repoRoot=${repoRoot}`);
-  logger.dbg(`defaultsModulePathAbs=${path.resolve(repoRoot, config.defaults)}`);
-  return { config, repoRoot };
+  if (config.defaults) logger.dbg(`defaultsModulePathAbs=${path.resolve(repoRoot, config.defaults)}`);
+  return { config, repoRoot, configPathAbs };
 }
 
 function validateConfig(raw: any, configPath: string): asserts raw is DocDefaultsConfig {
   if (!raw || typeof raw !== 'object') throw new Error(`[sync-doc-defaults] invalid config at ${configPath}`);
   const config = (raw.default ?? raw) as DocDefaultsConfig;
   if (!config || typeof config !== 'object') throw new Error(`[sync-doc-defaults] invalid config export at ${configPath}`);
-  if (!config.defaults || !config.targets) {
+  if (!config.targets || (!config.defaults && !everyTargetSetsDefaults(config.targets))) {
     throw new SddError(
       'INVALID_CONFIG',
-      `Could not load config at ${configPath}: must include "defaults" and "targets"`,
+      `Could not load config at ${configPath}: must include "defaults" (unless every target sets its own) and "targets"`,
       { details: { context: { path: configPath } } }
     );
   }
+  if (config.defaults != null && typeof config.defaults !== 'string') {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "defaults" must be a module path`,
+      { details: { context: { path: configPath } } },
+    );
+  }
   // lightweight shape check:
   if (!Array.isArray(config.targets)) throw new SddError(
     'INVALID_CONFIG',
     `Could not load config at ${configPath}: "targets" must be an array`,
     { details: { context: { path: configPath } } },
   );
+  if (!isSyncMode(config.mode)) {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "mode" must be "dts", "source" or "both"`,
+      { details: { context: { path: configPath } } },
+    );
+  }
+  if (config.prune != null && typeof config.prune !== 'boolean') {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "prune" must be a boolean if provided`,
+      { details: { context: { path: configPath } } },
+    );
+  }
+  if (config.strict != null && typeof config.strict !== 'boolean') {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "strict" must be a boolean if provided`,
+      { details: { context: { path: configPath } } },
+    );
+  }
+  if (config.inlineWidth != null && !(Number.isInteger(config.inlineWidth) && config.inlineWidth > 0)) {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "inlineWidth" must be a positive integer`,
+      { details: { context: { path: configPath } } },
+    );
+  }
+  if (!isSerializerList(config.serializers)) {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "serializers" must be an array of functions if provided`,
+      { details: { context: { path: configPath } } },
+    );
+  }
+  if (
+    config.overrides != null &&
+    (typeof config.overrides !== 'object' || Array.isArray(config.overrides) || Object.values(config.overrides).some((v) => typeof v !== 'string' && v !== false))
+  ) {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "overrides" must map "Interface.prop" keys to a string or false`,
+      { details: { context: { path: configPath } } },
+    );
+  }
+  if (!isCoverageSetting(config.coverage)) {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "coverage" must be a boolean or { undocumented?, stale? } with "off", "warn" or "error"`,
+      { details: { context: { path: configPath } } },
+    );
+  }
+  if (config.locator != null && config.locator !== 'regex' && config.locator !== 'ast') {
+    throw new SddError(
+      'INVALID_CONFIG',
+      `Could not load config at ${configPath}: "locator" must be "regex" or "ast"`,
+      { details: { context: { path: configPath } } },
+    );
+  }
   for (const target of config.targets) {
     if (!target || typeof target !== 'object') throw new SddError(
       'INVALID_CONFIG',
@@ -305,11 +907,116 @@ function validateConfig(raw: any, configPath: string): asserts raw is DocDefault
         { details: { context: { path: configPath } } },
       );
     }
+    if (target.defaults != null && (typeof target.defaults !== 'string' || !target.defaults)) {
+      throw new SddError(
+        'INVALID_CONFIG',
+        `Could not load config at ${configPath}: target "defaults" must be a module path if provided`,
+        { details: { context: { path: configPath } } },
+      );
+    }
+    if (target.recursive != null && typeof target.recursive !== 'boolean') {
+      throw new SddError(
+        'INVALID_CONFIG',
+        `Could not load config at ${configPath}: "recursive" must be a boolean if provided`,
+        { details: { context: { path: configPath } } },
+      );
+    }
+    if (!isSyncMode(target.mode)) {
+      throw new SddError(
+        'INVALID_CONFIG',
+        `Could not load config at ${configPath}: target "mode" must be "dts", "source" or "both"`,
+        { details: { context: { path: configPath } } },
+      );
+    }
+    if (!isSerializerList(target.serializers)) {
+      throw new SddError(
+        'INVALID_CONFIG',
+        `Could not load config at ${configPath}: target "serializers" must be an array of functions if provided`,
+        { details: { context: { path: configPath } } },
+      );
+    }
+    if (target.kind != null && target.kind !== 'interface' && target.kind !== 'class' && target.kind !== 'function') {
+      throw new SddError(
+        'INVALID_CONFIG',
+        `Could not load config at ${configPath}: "kind" must be "interface", "class" or "function"`,
+        { details: { context: { path: configPath } } },
+      );
+    }
+    if (target.constructorParam != null && (typeof target.constructorParam !== 'string' || target.kind !== 'class')) {
+      throw new SddError(
+        'INVALID_CONFIG',
+        `Could not load config at ${configPath}: "constructorParam" must be a string and requires kind "class"`,
+        { details: { context: { path: configPath } } },
+      );
+    }
+    if (target.param != null && (typeof target.param !== 'string' || target.kind !== 'function')) {
+      throw new SddError(
+        'INVALID_CONFIG',
+        `Could not load config at ${configPath}: "param" must be a string and requires kind "function"`,
+        { details: { context: { path: configPath } } },
+      );
+    }
   }
   // ok
   Object.assign(raw, { default: config }); // keep defaulted
 }
 
+/** Effective coverage policies: off unless enabled; `true` means the {@link CoverageConfig} defaults. */
+function resolveCoverage(coverage: DocDefaultsConfig['coverage']): Required<CoverageConfig> {
+  if (!coverage) return { undocumented: 'off', stale: 'off' };
+  const policies = coverage === true ? {} : coverage;
+  return { undocumented: policies.undocumented ?? 'warn', stale: policies.stale ?? 'error' };
+}
+
+/** The config's `overrides` for one target, keyed by property path. */
+function targetOverrides(config: DocDefaultsConfig, target: TargetConfig): Record<string, string | false> {
+  const prefix = `${target.interface}.`;
+  const out: Record<string, string | false> = {};
+  for (const [key, override] of Object.entries(config.overrides ?? {})) {
+    if (key.startsWith(prefix)) out[key.slice(prefix.length)] = override;
+  }
+  return out;
+}
+
+function isSyncMode(value: unknown): boolean {
+  return value == null || value === 'dts' || value === 'source' || value === 'both';
+}
+
+function isCoverageSetting(value: unknown): boolean {
+  if (value == null || typeof value === 'boolean') return true;
+  if (typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([key, policy]) =>
+    (key === 'undocumented' || key === 'stale') && (policy === 'off' || policy === 'warn' || policy === 'error'));
+}
+
+function isSerializerList(value: unknown): boolean {
+  return value == null || (Array.isArray(value) && value.every((fn) => typeof fn === 'function'));
+}
+
+/** Renders a target's values: its own serializers first, then the config's, then the built-ins. */
+function targetSerializer(config: DocDefaultsConfig, target: TargetConfig): ValueSerializer {
+  const serializers = [...(target.serializers ?? []), ...(config.serializers ?? [])];
+  return (value, ctx) => formatDefaultLiteral(value, { ...ctx, target }, serializers);
+}
+
+/**
+ * Builds the member locator selected in config.
+ * The `ast` locator uses the TypeScript compiler installed in the target project.
+ * @throws {SddError} `TYPESCRIPT_NOT_INSTALLED` when `ast` is requested but `typescript` cannot be resolved
+ */
+function createLocator(kind: LocatorKind | undefined, repoRoot: string): PropLocator {
+  if (kind !== 'ast') return regexLocator;
+  const ts = loadTypeScriptFrom(repoRoot);
+  if (!ts) {
+    throw new SddError(
+      'TYPESCRIPT_NOT_INSTALLED',
+      `locator is "ast" but "typescript" is not installed in the target project.\n` +
+      `Install with: pnpm add -D typescript (or set locator: "regex")`,
+    );
+  }
+  return createAstLocator(ts);
+}
+
 async function resolveTsconfigPathAbs(repoRoot: string, tsconfigPath?: string) {
   if (tsconfigPath) {
     return path.resolve(repoRoot, tsconfigPath);
@@ -317,6 +1024,58 @@ async function resolveTsconfigPathAbs(repoRoot: string, tsconfigPath?: string) {
   return await findNearestTsconfig(repoRoot);
 }
 
+/** A file a target is synced into, with whether it is the emitted `.d.ts` or the `types` source. */
+type TargetFile = { kind: 'dts' | 'source'; abs: string };
+
+/**
+ * The files a target is synced into for the given mode: its `.d.ts` (`dts`, the default), its
+ * `types` source (`source`), or both — source first, so emitted declarations can follow it.
+ */
+async function resolveTargetFiles(args: {
+  repoRoot: string;
+  ts: LoadedTsProject;
+  target: TargetConfig;
+  mode?: SyncMode;
+}): Promise<TargetFile[]> {
+  const { repoRoot, ts, target, mode = 'dts' } = args;
+  const files: TargetFile[] = [];
+  if (mode !== 'dts') {
+    files.push({ kind: 'source', abs: validatePathWithinRoot(repoRoot, target.types, 'types') });
+  }
+  if (mode !== 'source') {
+    const abs = await resolveDtsPathAbs({
+      repoRoot,
+      tsRootDir: ts.rootDir,
+      tsDeclarationDir: ts.declarationDir,
+      typesPath: target.types,
+      dtsPath: target.dts,
+    });
+    files.push({ kind: 'dts', abs });
+  }
+  return files;
+}
+
+/**
+ * @throws {SddError} `DTS_NOT_FOUND` / `SOURCE_NOT_FOUND` when the file cannot be read
+ */
+async function readTargetFile(name: string, file: TargetFile, repoRoot: string): Promise<string> {
+  try {
+    return await fs.readFile(file.abs, 'utf8');
+  } catch (err: any) {
+    throw file.kind === 'dts'
+      ? new SddError(
+        'DTS_NOT_FOUND',
+        `${name}: .d.ts not found at ${getRelativePath(repoRoot, file.abs)}`,
+        { details: { context: { path: file.abs } }, cause: err },
+      )
+      : new SddError(
+        'SOURCE_NOT_FOUND',
+        `${name}: types source not found at ${getRelativePath(repoRoot, file.abs)}`,
+        { details: { context: { path: file.abs } }, cause: err },
+      );
+  }
+}
+
 /**
  * Infers the output .d.ts path for a TypeScript source file based on tsconfig settings.
  * Uses the relationship between rootDir and declarationDir to map source to output.
@@ -348,6 +1107,54 @@ async function resolveDtsPathAbs(args: {
   return out;
 }
 
+/**
+ * Repo-relative path of a target's defaults module: its own `defaults`, else the config's
+ * (validation ensures one of them is set).
+ */
+function targetDefaults(config: DocDefaultsConfig, target: TargetConfig): string {
+  return (target.defaults ?? config.defaults)!;
+}
+
+/**
+ * Loads defaults modules on first use, once per path, so targets sharing a module import it
+ * only once (built JS preferred, TS fallback via tsx; see {@link loadModuleResolved}).
+ * A failed load is cached too, and rethrown for each target of that module.
+ */
+function createDefaultsLoader(repoRoot: string, ts: LoadedTsProject, options: Options): (pathAbs: string) => Promise<LoadedModule> {
+  const cache = new Map<string, Promise<LoadedModule>>();
+  return (pathAbs) => {
+    let loaded = cache.get(pathAbs);
+    if (!loaded) {
+      loaded = loadModuleResolved(pathAbs, {
+        repoRoot,
+        tsRootDir: ts.rootDir,
+        tsOutDir: ts.outDir,
+        tsDeclarationDir: ts.declarationDir,
+        tsMode: options.tsMode,
+        quiet: options.quiet,
+        debug: options.debugPaths,
+        silent: options.silent,
+      });
+      cache.set(pathAbs, loaded);
+    }
+    return loaded;
+  };
+}
+
+/**
+ * The targets to process: all of them, or those whose label (`name`, else the interface) is
+ * listed in `only`, in config order.
+ * @throws {SddError} `CLI_USAGE` when a listed label matches no target
+ */
+function selectTargets(config: DocDefaultsConfig, only: string[] | undefined): TargetConfig[] {
+  if (!only) return config.targets;
+  const unknown = only.filter((label) => !config.targets.some((t) => (t.name ?? t.interface) === label));
+  if (unknown.length) {
+    throw new SddError('CLI_USAGE', `unknown target(s): ${unknown.join(', ')}`);
+  }
+  return config.targets.filter((t) => only.includes(t.name ?? t.interface));
+}
+
 /**
  * Resolves a (possibly nested) property from a module object using dot notation.
  * Handles ES module default exports and CommonJS interop.
@@ -412,7 +1219,11 @@ async function findConfigPath(startDir: string, explicit?: string) {
   return undefined;
 }
 
-async function importConfig(configPathAbs: string, options: { repoRoot: string; tsMode?: TsMode; quiet?: boolean; debug?: boolean }) {
+/**
+ * @param options.fresh - Re-evaluate a JS config that was imported before (ESM modules are cached
+ *                        by URL, so a query is added; CJS modules are dropped from the require cache)
+ */
+async function importConfig(configPathAbs: string, options: { repoRoot: string; tsMode?: TsMode; quiet?: boolean; debug?: boolean; silent?: boolean; fresh?: boolean }) {
   const extension = path.extname(configPathAbs).toLowerCase();
   if (extension === '.json') {
     const raw = await fs.readFile(configPathAbs, 'utf8');
@@ -425,9 +1236,15 @@ async function importConfig(configPathAbs: string, options: { repoRoot: string;
       tsMode: options.tsMode ?? 'auto',
       quiet: options.quiet,
       debug: options.debug,
+      silent: options.silent,
     });
     return module.default ?? module;
   }
+  if (options.fresh) {
+    delete createRequire(configPathAbs).cache[configPathAbs];
+    const module = await import(`${pathToFileURL(configPathAbs).href}?t=${Date.now()}`);
+    return module.default ?? module;
+  }
   const module = await import(pathToFileURL(configPathAbs).href);
   return module.default ?? module;
 }
@@ -1,10 +1,14 @@
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
 import path from 'node:path';
-import type { Options, TsMode } from './types.js';
+import type { ConfigFormat, Options, SyncMode, TsMode } from './types.js';
 import { discoverConfig } from './infra/config.js';
-import { inject, assert } from './api.js';
+import { inject, assert, check, doctor, init, list, planWatch } from './api.js';
 import { EXIT_CODES } from './constants.js';
-import { configNotFound, usageError } from './errors.js';
-import { defaultLogger } from './infra/log.js';
+import { SddError, configNotFound, stripLogPrefix, usageError } from './errors.js';
+import { createLogger, defaultLogger } from './infra/log.js';
+import { buildRunReport, exitCodeOf, renderDoctorReport, renderListReport, renderReport, OUTPUT_FORMATS, type OutputFormat } from './infra/report.js';
+import { startWatchLoop } from './infra/watch.js';
 
 
 // exit codes:
@@ -16,7 +20,7 @@ import { defaultLogger } from './infra/log.js';
 // 5 = usage error
 // 6 = general error
 
-type Subcommand = 'inject' | 'assert';
+type Subcommand = 'inject' | 'assert' | 'check' | 'watch' | 'list' | 'doctor';
 
 function usage(code: number, message?: string): never {
   if (message) defaultLogger.error(message);
@@ -24,35 +28,77 @@ function usage(code: number, message?: string): never {
 sync-doc-defaults v1.0.0
 
 Usage:
-  sync-doc-defaults <inject|assert> [options]
-  sdd <inject|assert> [options]
+  sync-doc-defaults <inject|assert|check|watch|list|doctor|init> [options]
+  sdd <inject|assert|check|watch|list|doctor|init> [options]
 
 Commands:
   inject     Write @default docs into .d.ts files based on your constants module
   assert     Verify @default docs match your constants (no writes)
+  check      Fail if inject would change anything; print the diff and the fix (no writes)
+  watch      Inject, then re-inject the affected targets whenever the defaults module (or a
+             module it imports), the config or a target's .d.ts changes
+  list       Show how each target resolves: config, tsconfig, the defaults module actually
+             loaded, files, member path, and defaults keys vs declared members (alias: explain)
+  doctor     Check the project for common setup problems (package type, built JS, tsx,
+             tsconfig, missing .d.ts) and print a pass/warn/fail checklist with fixes
+  init       Scan the project for *DEFAULTS* exports and write a starter config
 
 Options:
   -c, --config <file>   Path to config file.
                         Defaults to searching upward for either:
-                          * docdefaults.config.(mjs|cjs|js|json)
-                          * sync-doc-defaults.config.(mjs|cjs|js|json)
-  --dry                 (inject) Show changes but don't write files
+                          * docdefaults.config.(mjs|cjs|js|json|ts)
+                          * sync-doc-defaults.config.(mjs|cjs|js|json|ts)
+  --dry                 (inject) Print a unified diff of the changes but don't write files
+  --diff-output <file>  (inject, check) Write the changes as a patch for \`git apply\`
+                        (implies --dry)
+  --color, --no-color   Force or disable colors in the --dry diff (default: on for a TTY)
   --quiet               Minimal output
   --debug-paths         Print path-resolution breadcrumbs
   --ts <auto|on|off>    TypeScript handling mode (default: auto)
   --tag <default|defaultValue>
                         JSDoc tag to render for defaults (default: default)
+  --strict              (assert) Compare doc literals byte-for-byte instead of structurally
+  --prune               (inject) Remove @default tags whose key is no longer in the defaults
+  --target <name>       Only process this target (by name, else interface); repeatable
+  --mode <dts|source|both>
+                        Files to sync: emitted .d.ts (default), the types source, or both
+  --format <text|json|ndjson|github|sarif|junit>
+                        Output: log lines (default), one JSON document, one JSON line per
+                        target plus a summary line, GitHub Actions annotations, a
+                        SARIF 2.1.0 log, or JUnit XML. Machine formats print nothing else.
+  --reporter <name>     Same as --format (e.g. --reporter junit)
+  --output <file>       Write the --format report to <file> instead of stdout
+  --debounce <ms>       (watch) Wait this long after the last change before injecting (default: 200)
+
+Init options:
+  --config-format <mjs|cjs|json|ts>
+                        Format of the written docdefaults.config.* (default: mjs)
+  --force               Overwrite an existing config
+  --dry                 Print the config instead of writing it
 
 Env:
   SYNCDOCDEFAULTS_TS=auto|on|off            Overrides --ts
   SYNCDOCDEFAULTS_TAG=default|defaultValue  Overrides --tag
   SYNCDOCDEFAULTS_QUIET=1                   Silences routine logs
   SYNCDOCDEFAULTS_DEBUG_PATHS=1             Enables path breadcrumbs
+  SYNCDOCDEFAULTS_STRICT=1                  Same as --strict
+  SYNCDOCDEFAULTS_PRUNE=1                   Same as --prune
 
 Examples:
   sync-doc-defaults inject
   sync-doc-defaults assert --quiet
+  sdd check --prune
+  sdd watch --debounce 500
+  sdd list --format json
+  sdd doctor
+  sdd init --config-format ts
   sdd inject --dry --debug-paths
+  sdd inject --diff-output defaults.patch && git apply defaults.patch
+  sdd inject --prune
+  sdd inject --mode source
+  sdd assert --format json > sdd-report.json
+  sdd assert --format sarif --output sdd.sarif
+  sdd assert --reporter junit --output report.xml
   pnpm dlx sync-doc-defaults inject -c ./docdefaults.config.mjs
 `);
   process.exit(code);
@@ -65,7 +111,100 @@ function coerceTsMode(value: any | undefined): TsMode | undefined {
   throw usageError(`Invalid value for --ts: ${coerced}. Use on|off|auto.`);
 }
 
+/**
+ * Write a report to `outputPath`, or to stdout (waiting for the flush, so a following
+ * `process.exit` can't truncate it).
+ */
+async function emit(text: string, outputPath: string | undefined) {
+  if (outputPath) {
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, `${text}\n`, 'utf8');
+    return;
+  }
+  if (!text) return;
+  await new Promise<void>((resolve) => process.stdout.write(`${text}\n`, () => resolve()));
+}
+
+async function writePatch(file: string, patch: string | undefined) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, patch ?? '', 'utf8');
+}
+
+/** The options of `argv` (command excluded) without the given flags, and the values of `withValue` ones. */
+function withoutFlags(argv: string[], flags: string[], withValue: string[]): string[] {
+  const kept: string[] = [];
+  for (let i = 1; i < argv.length; i++) {
+    if (withValue.includes(argv[i])) { i++; continue; }
+    if (!flags.includes(argv[i])) kept.push(argv[i]);
+  }
+  return kept;
+}
+
+/** The `inject` invocation that applies what `check` reported: same options, minus report/preview flags. */
+function fixCommand(argv: string[]): string {
+  const kept = withoutFlags(argv, ['--dry', '--quiet', '--color', '--no-color'], ['--format', '--reporter', '--output', '--diff-output'])
+    .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`));
+  return ['sync-doc-defaults', 'inject', ...kept].join(' ');
+}
+
+/**
+ * Runs until interrupted. Each run is a child `inject` process with the same options, so the
+ * defaults module and its imports are loaded fresh every time.
+ */
+async function runWatch(configPath: string, options: Options, argv: string[], debounceMs: number): Promise<never> {
+  const forwarded = withoutFlags(argv, [], ['-c', '--config', '--target', '--debounce']);
+  const logger = createLogger({ quiet: options.quiet, debugPaths: options.debugPaths });
+  const watcher = await startWatchLoop({
+    plan: () => planWatch(configPath, options),
+    run: (targets) => new Promise<void>((resolve, reject) => {
+      const args = [process.argv[1], 'inject', '--config', configPath, ...forwarded];
+      for (const name of targets ?? options.targets ?? []) args.push('--target', name);
+      const child = spawn(process.execPath, args, { stdio: 'inherit' });
+      child.on('error', reject);
+      child.on('exit', () => resolve());
+    }),
+    debounceMs,
+    logger,
+  });
+  logger.log('watching for changes (Ctrl+C to stop)');
+  return new Promise<never>(() => {
+    process.once('SIGINT', () => {
+      watcher.close();
+      process.exit(EXIT_CODES.SUCCESS);
+    });
+  });
+}
+
+const CONFIG_FORMATS: ConfigFormat[] = ['mjs', 'cjs', 'json', 'ts'];
+
+async function runInit(argv: string[]): Promise<never> {
+  let quiet = false;
+  let debugPaths = false;
+  let dryRun = false;
+  let force = false;
+  let format: ConfigFormat | undefined;
+  for (let i = 1; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--quiet') { quiet = true; continue; }
+    if (a === '--debug-paths') { debugPaths = true; continue; }
+    if (a === '--dry') { dryRun = true; continue; }
+    if (a === '--force') { force = true; continue; }
+    if (a === '--config-format') {
+      const value = argv[++i] as ConfigFormat;
+      if (!CONFIG_FORMATS.includes(value)) throw usageError(`Invalid value for --config-format. Use ${CONFIG_FORMATS.join('|')}.`);
+      format = value;
+      continue;
+    }
+    throw usageError(`Unknown option for init: ${a}`);
+  }
+  await init({ repoRoot: process.cwd(), quiet, debugPaths, dryRun, force, format });
+  process.exit(EXIT_CODES.SUCCESS);
+}
+
 async function main() {
+  let cmd: Subcommand | undefined;
+  let format: OutputFormat = 'text';
+  let outputPath: string | undefined;
   try {
     const argv = process.argv.slice(2);
 
@@ -77,15 +216,23 @@ async function main() {
       defaultLogger.log(pkg?.default?.version ?? 'unknown');
       process.exit(0);
     }
-    const cmd = argv[0] as Subcommand;
-    if (!cmd || (cmd !== 'inject' && cmd !== 'assert')) usage(1, 'Missing or invalid command');
+    if (argv[0] === 'init') await runInit(argv);
+    cmd = (argv[0] === 'explain' ? 'list' : argv[0]) as Subcommand;
+    if (!cmd || !['inject', 'assert', 'check', 'watch', 'list', 'doctor'].includes(cmd)) usage(1, 'Missing or invalid command');
 
     let configPath: string | undefined;
     let quiet = false;
     let debugPaths = false;
     let dryRun = false;
+    let diffOutput: string | undefined;
+    let color: boolean | undefined;
+    let strict: boolean | undefined;
+    let prune: boolean | undefined;
+    let mode: SyncMode | undefined;
     let tsMode: TsMode | undefined;
     let tag: 'default' | 'defaultValue' | undefined;
+    let targets: string[] | undefined;
+    let debounceMs = 200;
 
     for (let i = 1; i < argv.length; i++) {
       const a = argv[i];
@@ -93,6 +240,43 @@ async function main() {
       if (a === '--quiet') { quiet = true; continue; }
       if (a === '--debug-paths') { debugPaths = true; continue; }
       if (a === '--dry') { dryRun = true; continue; }
+      if (a === '--diff-output') {
+        if (!argv[i + 1]) throw usageError('Missing value for --diff-output');
+        diffOutput = path.resolve(argv[++i]);
+        dryRun = true;
+        continue;
+      }
+      if (a === '--color') { color = true; continue; }
+      if (a === '--no-color') { color = false; continue; }
+      if (a === '--strict') { strict = true; continue; }
+      if (a === '--prune') { prune = true; continue; }
+      if (a === '--target') {
+        if (!argv[i + 1]) throw usageError('Missing value for --target');
+        targets = [...(targets ?? []), argv[++i]];
+        continue;
+      }
+      if (a === '--debounce') {
+        debounceMs = Number(argv[++i]);
+        if (!Number.isInteger(debounceMs) || debounceMs < 0) throw usageError('Invalid value for --debounce. Use a number of milliseconds.');
+        continue;
+      }
+      if (a === '--mode') {
+        const value = argv[++i];
+        if (value !== 'dts' && value !== 'source' && value !== 'both') throw usageError('Invalid value for --mode. Use dts|source|both.');
+        mode = value;
+        continue;
+      }
+      if (a === '--format' || a === '--reporter') {
+        const value = argv[++i] as OutputFormat;
+        if (!OUTPUT_FORMATS.includes(value)) throw usageError(`Invalid value for ${a}. Use ${OUTPUT_FORMATS.join('|')}.`);
+        format = value;
+        continue;
+      }
+      if (a === '--output') {
+        if (!argv[i + 1]) throw usageError('Missing value for --output');
+        outputPath = path.resolve(argv[++i]);
+        continue;
+      }
       if (a === '--tag') { tag = (argv[++i] === 'defaultValue' ? 'defaultValue' : 'default'); continue; }
       if (a === '--ts') {
         if (!argv[i + 1]) throw usageError('Missing value for --ts (use on|off|auto)');
@@ -102,6 +286,20 @@ async function main() {
       throw usageError(`Unknown option: ${a}`);
     }
 
+    if (outputPath && format === 'text') throw usageError('--output requires a machine-readable --format');
+
+    const repoRoot = process.cwd(); // treat cwd as project root
+    const silent = format !== 'text';
+    const options: Options = { repoRoot, quiet, silent, debugPaths, dryRun, tsMode, tag, strict, prune, mode, color, targets };
+
+    // doctor looks for the config itself, and reports a missing one as a failed check
+    if (cmd === 'doctor') {
+      if (format !== 'text' && format !== 'json') throw usageError('doctor supports --format text|json');
+      const result = await doctor(configPath, options);
+      await emit(renderDoctorReport(result, format), outputPath);
+      process.exit(result.ok ? EXIT_CODES.SUCCESS : EXIT_CODES.VALIDATION_ERROR);
+    }
+
     if (!configPath) {
       const found = await discoverConfig(process.cwd());
       if (!found) {
@@ -110,20 +308,42 @@ async function main() {
       configPath = found;
     }
 
-    const repoRoot = process.cwd(); // treat cwd as project root
-    const options: Options = { repoRoot, quiet, debugPaths, dryRun, tsMode, tag };
+    if (cmd === 'watch') {
+      if (format !== 'text' || diffOutput) throw usageError('watch prints log lines only: --format and --diff-output are not supported');
+      return await runWatch(configPath, options, argv, debounceMs);
+    }
+    if (cmd === 'list') {
+      if (format !== 'text' && format !== 'json') throw usageError('list supports --format text|json');
+      await emit(renderListReport(await list(configPath, options), format), outputPath);
+      process.exit(EXIT_CODES.SUCCESS);
+    }
+    let result;
+    try {
+      result = cmd === 'inject' ? await inject(configPath, options)
+        : cmd === 'check' ? await check(configPath, options)
+        : await assert(configPath, { ...options, dryRun: false });
+    } catch (err) {
+      // CHECK_FAILED carries the patch of the pending changes
+      const failed = err instanceof SddError ? err.details?.result : undefined;
+      if (diffOutput && failed && 'patch' in failed) await writePatch(diffOutput, failed.patch);
+      if (cmd === 'check' && format === 'text' && failed) {
+        defaultLogger.error(`${stripLogPrefix((err as Error).message)}\nTo fix, run: ${fixCommand(argv)}`);
+        process.exit(exitCodeOf(err));
+      }
+      throw err;
+    }
 
-    if (cmd === 'inject') await inject(configPath, options);
-    else await assert(configPath, { ...options, dryRun: false });
+    if (diffOutput && 'patch' in result) await writePatch(diffOutput, result.patch);
 
+    if (format !== 'text') await emit(renderReport(buildRunReport(cmd, { result }), format), outputPath);
     process.exit(EXIT_CODES.SUCCESS);
   } catch (err: any) {
-    const exitCode =
-      typeof err?.exitCode === 'number' ? err.exitCode :
-      typeof err?.code === 'number' ? err.code :
-      EXIT_CODES.GENERAL_ERROR;
-    defaultLogger.error(err?.message ?? String(err));
-    process.exit(exitCode);
+    if (cmd && cmd !== 'watch' && cmd !== 'list' && cmd !== 'doctor' && format !== 'text') {
+      await emit(renderReport(buildRunReport(cmd, { error: err }), format), outputPath);
+    } else {
+      defaultLogger.error(err?.message ?? String(err));
+    }
+    process.exit(exitCodeOf(err));
   }
 }
 
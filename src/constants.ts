@@ -18,10 +18,12 @@ export const CONFIG_FILENAME_CANDIDATES = [
   'docdefaults.config.cjs',
   'docdefaults.config.js',
   'docdefaults.config.json',
+  'docdefaults.config.ts',
   'sync-doc-defaults.config.mjs',
   'sync-doc-defaults.config.cjs',
   'sync-doc-defaults.config.js',
   'sync-doc-defaults.config.json',
+  'sync-doc-defaults.config.ts',
 ];
 
 
@@ -1,5 +1,14 @@
-import { extractLeadingJsdoc, readDefaultLiteralFromJsdoc, formatDefaultLiteral } from './jsdoc.js';
-import { listInterfaceProps } from './locator.js';
+import type { PropLocator, TargetKind, ValueSerializer } from '../types.js';
+import {
+  extractLeadingJsdoc,
+  readDefaultLiteralFromJsdoc,
+  readParamDefaultFromJsdoc,
+  readSddDirective,
+  formatDefaultLiteral,
+} from './jsdoc.js';
+import { regexLocator } from './locator.js';
+import { literalsEqual } from './literal.js';
+import { isPlainObject } from '../utils.js';
 
 
 type Mismatch = {
@@ -12,14 +21,16 @@ type Mismatch = {
 /**
  * Verifies that JSDoc @default tags in a TypeScript declaration file match expected runtime values.
  * 
- * This function performs a strict comparison between the literal values found in JSDoc @default
- * tags and the provided runtime defaults. It's designed to catch documentation drift where the
+ * This function compares the literal values found in JSDoc @default tags with the provided
+ * runtime defaults. It's designed to catch documentation drift where the
  * documented defaults no longer match the actual runtime behavior.
  * 
  * The comparison is performed by:
  * 1. Parsing the interface to find all properties
  * 2. Extracting JSDoc comments and their @default/@defaultValue tags
- * 3. Comparing the formatted literal from JSDoc against the expected literal
+ * 3. Comparing the literal from JSDoc against the expected literal: structurally by default
+ *    (both are parsed as JSON5/JS literals, so `{ a: 1 }`, `{"a":1}` and `{ "a": 1.0 }` agree),
+ *    or byte-for-byte with `strict`
  * 4. Collecting all mismatches for comprehensive error reporting
  * 
  * Important behavior notes:
@@ -29,13 +40,28 @@ type Mismatch = {
  *   not the specific tag name.
  * - If the target interface cannot be found in `dtsText`, every key in `defaults` is reported as
  *   a missing @default.
+ * - With `recursive`, plain-object defaults are also checked member-by-member against the
+ *   property's inline object type (or a referenced interface/type alias in the same text);
+ *   nested mismatches are reported by dotted path (e.g. `retry.backoffMs`).
+ * - Members skipped via `overrides` (`false`) or `@sddIgnore` are not checked; a string override
+ *   or `@sddDefault <text>` becomes the expected literal.
  * 
  * @param params - Assertion parameters
  * @param params.dtsText - Complete text content of the .d.ts file to check
  * @param params.interfaceName - Name of the interface whose properties should be checked
  * @param params.defaults - Object mapping property names to their expected default values.
  *                          Values will be formatted using the same rules as injection
- *                          (strings quoted, objects JSON-stringified, etc.)
+ *                          (strings quoted, objects JSON-stringified, `Map`/`Date`/... as TS expressions)
+ * @param params.serialize - Renders expected values (default: `formatDefaultLiteral`); pass the
+ *                           serializer used for injection
+ * @param params.recursive - Also assert defaults of nested members (default: false)
+ * @param params.strict - Require the documented literal to match the rendered one exactly (default: false)
+ * @param params.locator - How members are found (default: the regex scanner)
+ * @param params.kind - `'class'` when `interfaceName` names a class (default: `'interface'`)
+ * @param params.constructorParam - For classes, also check the members of this constructor parameter
+ * @param params.overrides - Per property path: the literal to expect instead, or `false` to skip it
+ * @param params.param - For functions (`kind: 'function'`), the options parameter whose `@param <param>.<key>`
+ *                       tags are checked; when omitted, `@param <key>` tags are checked
  * 
  * @returns Assertion result object
  * @returns returns.ok - True if all defaults match, false if any mismatches found
@@ -44,6 +70,7 @@ type Mismatch = {
  * @returns returns.mismatches[].prop - Property name that has incorrect/missing default
  * @returns returns.mismatches[].expected - The correctly formatted default literal
  * @returns returns.mismatches[].found - The actual literal found (undefined if missing)
+ * @returns returns.checked - Every property path that was compared (matching or not), in order
  * 
  * @example
  * const result = assertDefaultsInDts({
@@ -63,37 +90,98 @@ export function assertDefaultsInDts(params: {
   dtsText: string;
   interfaceName: string;
   defaults: Record<string, unknown>;
-}): { ok: boolean; mismatches: Mismatch[] } {
-  const { dtsText, interfaceName, defaults } = params;
+  recursive?: boolean;
+  strict?: boolean;
+  locator?: PropLocator;
+  kind?: TargetKind;
+  constructorParam?: string;
+  param?: string;
+  serialize?: ValueSerializer;
+  overrides?: Partial<Record<string, string | false>>;
+}): { ok: boolean; mismatches: Mismatch[]; checked: string[] } {
+  const {
+    dtsText,
+    interfaceName,
+    defaults,
+    recursive = false,
+    strict = false,
+    locator = regexLocator,
+    kind,
+    constructorParam,
+    param,
+    serialize = formatDefaultLiteral,
+    overrides = {},
+  } = params;
 
-  const props = listInterfaceProps(dtsText, interfaceName);
+  if (kind === 'function') {
+    const fn = locator.findFunction(dtsText, interfaceName, { param });
+    const { text: jsdocRaw } = fn ? fn.doc ?? extractLeadingJsdoc(dtsText, fn.headStart) : { text: undefined };
+    const mismatches: Mismatch[] = [];
+    const checked: string[] = [];
+    for (const [key, value] of Object.entries(defaults)) {
+      const override = overrides[key];
+      if (override === false) continue;
+      checked.push(key);
+      const expected = override ?? serialize(value, { interfaceName, prop: key });
+      const found = fn?.params.includes(key)
+        ? readParamDefaultFromJsdoc(jsdocRaw, param ? `${param}.${key}` : key)
+        : undefined;
+      if (!literalsEqual(found, expected, strict)) mismatches.push({ interfaceName, prop: key, expected, found });
+    }
+    return { ok: mismatches.length === 0, mismatches, checked };
+  }
+
+  const props = locator.listProps(dtsText, interfaceName, { kind, constructorParam });
   if (!props.length) {
     // Treat as all missing
-    const mismatches = Object.entries(defaults).map(([prop, v]) => ({
-      interfaceName,
-      prop,
-      expected: formatDefaultLiteral(v),
-      found: undefined,
-    }));
-    return { ok: mismatches.length === 0, mismatches };
+    const mismatches = Object.entries(defaults).flatMap(([prop, v]) => {
+      const configured = overrides[prop];
+      if (configured === false) return [];
+      return [{ interfaceName, prop, expected: configured ?? serialize(v, { interfaceName, prop }), found: undefined }];
+    });
+    return { ok: mismatches.length === 0, mismatches, checked: mismatches.map((m) => m.prop) };
   }
 
   const mismatches: Mismatch[] = [];
+  const checked = new Set<string>();
 
-  for (const [prop, value] of Object.entries(defaults)) {
-    const p = props.find(p => p.name === prop);
-    const expected = formatDefaultLiteral(value);
-    if (!p) {
-      mismatches.push({ interfaceName, prop, expected, found: undefined });
-      continue;
-    }
-    const { headStart } = p;
-    const { text: jsdocRaw } = extractLeadingJsdoc(dtsText, headStart);
-    const found = readDefaultLiteralFromJsdoc(jsdocRaw);
-    if (found !== expected) {
-      mismatches.push({ interfaceName, prop, expected, found });
+  const check = (
+    members: typeof props,
+    values: Record<string, unknown>,
+    prefix: string,
+    seen: Set<object>,
+  ) => {
+    for (const [key, value] of Object.entries(values)) {
+      const prop = prefix + key;
+      const matches = members.filter(p => p.name === key);
+      const configured = overrides[prop];
+      if (configured === false) continue;
+      if (!matches.length) {
+        checked.add(prop);
+        mismatches.push({ interfaceName, prop, expected: configured ?? serialize(value, { interfaceName, prop }), found: undefined });
+        continue;
+      }
+
+      for (const p of matches) {
+        const { text: jsdocRaw } = p.doc ?? extractLeadingJsdoc(dtsText, p.headStart);
+        const override = configured ?? readSddDirective(jsdocRaw);
+        if (override === false) continue;
+        checked.add(prop);
+        const expected = override ?? serialize(value, { interfaceName, prop });
+        const found = readDefaultLiteralFromJsdoc(jsdocRaw);
+        if (!literalsEqual(found, expected, strict)) {
+          mismatches.push({ interfaceName, prop, expected, found });
+        }
+
+        if (recursive && isPlainObject(value) && !seen.has(value)) {
+          const nested = locator.listNestedProps(dtsText, p);
+          if (nested.length) check(nested, value, `${prop}.`, new Set(seen).add(value));
+        }
+      }
     }
-  }
+  };
+  check(props, defaults, '', new Set());
 
-  return { ok: mismatches.length === 0, mismatches };
+  return { ok: mismatches.length === 0, mismatches, checked: [...checked] };
 }
+
@@ -0,0 +1,281 @@
+import type * as TS from 'typescript';
+import type { FunctionHead, LocateOptions, PropHead, PropLocator } from '../types.js';
+import { splitQualifiedName } from './locator.js';
+
+
+type TsApi = typeof TS;
+
+/**
+ * Creates a member locator backed by the TypeScript compiler API.
+ *
+ * Unlike the regex scanner, the parser understands every member shape a `.d.ts` can hold:
+ * multi-line property types, method signatures, quoted/computed string keys, comments between
+ * a name and its colon, and braces inside strings or comments. Index, call and construct
+ * signatures have no name and are never reported. Qualified and merged declarations resolve
+ * as described for `findDeclarationBodies`. Class targets list property declarations and,
+ * when asked, the members of a constructor parameter's type; function targets resolve to the
+ * first declaration (overload) of the function.
+ *
+ * Each {@link PropHead} carries the exact range of the JSDoc attached to the member (or an
+ * empty range at the head when there is none), so edits replace precisely that block.
+ *
+ * The compiler is not bundled: callers pass the `typescript` module resolved from the target
+ * project (see `loadTypeScriptFrom`).
+ *
+ * @param ts - The `typescript` module
+ * @returns A {@link PropLocator} that parses the text it is given (the last parse is cached)
+ * @example
+ * const locator = createAstLocator(require('typescript'));
+ * locator.listProps('interface Foo { /** a *\/ x: number; }', 'Foo');
+ * // → [{ name: 'x', headStart: 27, indent: ' ', doc: { range: [16, 26], text: '/** a *\/' } }]
+ */
+export function createAstLocator(ts: TsApi): PropLocator {
+  let cached: { text: string; sourceFile: TS.SourceFile } | undefined;
+
+  function parse(text: string): TS.SourceFile {
+    if (cached?.text !== text) {
+      const sourceFile = ts.createSourceFile('target.d.ts', text, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+      cached = { text, sourceFile };
+    }
+    return cached.sourceFile;
+  }
+
+  function listProps(text: string, typeName: string, options: LocateOptions = {}): PropHead[] {
+    const sourceFile = parse(text);
+    if (options.kind === 'class') {
+      const [cls] = findDeclarations(sourceFile, typeName, findScopeClasses);
+      return cls ? classHeads(text, sourceFile, cls, options.constructorParam) : [];
+    }
+    return findDeclarations(sourceFile, typeName, findScopeMemberLists).flatMap((members) =>
+      toHeads(sourceFile, members),
+    );
+  }
+
+  function listNestedProps(text: string, prop: PropHead): PropHead[] {
+    const sourceFile = parse(text);
+    const member = findMemberAt(sourceFile, prop.headStart);
+    if (!member?.type) return [];
+    return nestedFromType(text, sourceFile, member.type);
+  }
+
+  function findFunction(text: string, functionName: string, options: { param?: string } = {}): FunctionHead | undefined {
+    const sourceFile = parse(text);
+    const [fn] = findDeclarations(sourceFile, functionName, (statements, name) =>
+      statements.filter((s): s is TS.FunctionDeclaration => ts.isFunctionDeclaration(s) && s.name?.text === name),
+    );
+    if (!fn?.name) return undefined;
+
+    let params: string[];
+    if (options.param) {
+      const param = fn.parameters.find((p) => ts.isIdentifier(p.name) && p.name.text === options.param);
+      params = param?.type ? nestedFromType(text, sourceFile, param.type).map((p) => p.name) : [];
+    } else {
+      params = fn.parameters.flatMap((p) => (ts.isIdentifier(p.name) && p.name.text !== 'this' ? [p.name.text] : []));
+    }
+    return { ...toHead(sourceFile, fn, fn.name.text), params };
+  }
+
+  function findDeclarations<T>(
+    sourceFile: TS.SourceFile,
+    typeName: string,
+    findInScope: (statements: readonly TS.Statement[], name: string) => T[],
+  ): T[] {
+    const segments = splitQualifiedName(typeName);
+    const name = segments.pop();
+    if (!name) return [];
+
+    const scopes = findNamespaceScopes(sourceFile.statements, segments);
+    const found = scopes.flatMap((statements) => findInScope(statements, name));
+    if (found.length || segments.length) return found;
+
+    // Unqualified names not declared at the top level: first declaration at any depth
+    for (const statements of listAllModuleScopes(sourceFile.statements)) {
+      const nested = findInScope(statements, name);
+      if (nested.length) return nested;
+    }
+    return [];
+  }
+
+  /** All merged interface declarations named `name`, or else the first such type alias. */
+  function findScopeMemberLists(statements: readonly TS.Statement[], name: string): Array<TS.NodeArray<TS.TypeElement>> {
+    const interfaces = statements.filter(
+      (s): s is TS.InterfaceDeclaration => ts.isInterfaceDeclaration(s) && s.name.text === name,
+    );
+    if (interfaces.length) return interfaces.map((s) => s.members);
+
+    const alias = statements.find(
+      (s): s is TS.TypeAliasDeclaration => ts.isTypeAliasDeclaration(s) && s.name.text === name,
+    );
+    return alias ? typeLiterals(alias.type).map((literal) => literal.members) : [];
+  }
+
+  function findScopeClasses(statements: readonly TS.Statement[], name: string): TS.ClassDeclaration[] {
+    return statements.filter(
+      (s): s is TS.ClassDeclaration => ts.isClassDeclaration(s) && s.name?.text === name,
+    );
+  }
+
+  /** Property declarations of a class, then the members of constructor parameter `paramName`. */
+  function classHeads(
+    text: string,
+    sourceFile: TS.SourceFile,
+    cls: TS.ClassDeclaration,
+    paramName: string | undefined,
+  ): PropHead[] {
+    const out = toHeads(sourceFile, cls.members.filter(ts.isPropertyDeclaration));
+    if (!paramName) return out;
+
+    const ctor = cls.members.find(ts.isConstructorDeclaration);
+    const param = ctor?.parameters.find((p) => ts.isIdentifier(p.name) && p.name.text === paramName);
+    if (param?.type) out.push(...nestedFromType(text, sourceFile, param.type));
+    return out;
+  }
+
+  /** Statement lists of the (possibly re-opened) namespaces/modules named by `segments`. */
+  function findNamespaceScopes(statements: readonly TS.Statement[], segments: string[]): Array<readonly TS.Statement[]> {
+    if (!segments.length) return [statements];
+    const out: Array<readonly TS.Statement[]> = [];
+    for (const { names, block } of listModuleBlocks(statements)) {
+      if (names.length > segments.length || !names.every((n, i) => n === segments[i])) continue;
+      out.push(...findNamespaceScopes(block.statements, segments.slice(names.length)));
+    }
+    return out;
+  }
+
+  function listAllModuleScopes(statements: readonly TS.Statement[]): Array<readonly TS.Statement[]> {
+    return listModuleBlocks(statements).flatMap(({ block }) => [
+      block.statements,
+      ...listAllModuleScopes(block.statements),
+    ]);
+  }
+
+  /** Direct child module blocks, flattening `namespace A.B { }` to the names `['A', 'B']`. */
+  function listModuleBlocks(statements: readonly TS.Statement[]): Array<{ names: string[]; block: TS.ModuleBlock }> {
+    const out: Array<{ names: string[]; block: TS.ModuleBlock }> = [];
+    for (const statement of statements) {
+      if (!ts.isModuleDeclaration(statement)) continue;
+      let decl: TS.ModuleDeclaration = statement;
+      const names = [moduleName(decl)];
+      while (decl.body && ts.isModuleDeclaration(decl.body)) {
+        decl = decl.body;
+        names.push(moduleName(decl));
+      }
+      if (decl.body && ts.isModuleBlock(decl.body)) out.push({ names, block: decl.body });
+    }
+    return out;
+  }
+
+  function moduleName(decl: TS.ModuleDeclaration): string {
+    return ts.isStringLiteral(decl.name) ? `"${decl.name.text}"` : decl.name.text;
+  }
+
+  /** Top-level object literals of a type alias (through parentheses, `&` and `|`). */
+  function typeLiterals(node: TS.TypeNode): TS.TypeLiteralNode[] {
+    if (ts.isTypeLiteralNode(node)) return [node];
+    if (ts.isParenthesizedTypeNode(node)) return typeLiterals(node.type);
+    if (ts.isIntersectionTypeNode(node) || ts.isUnionTypeNode(node)) return node.types.flatMap(typeLiterals);
+    return [];
+  }
+
+  function nestedFromType(text: string, sourceFile: TS.SourceFile, node: TS.TypeNode): PropHead[] {
+    if (ts.isTypeLiteralNode(node)) return toHeads(sourceFile, node.members);
+    if (ts.isParenthesizedTypeNode(node)) return nestedFromType(text, sourceFile, node.type);
+    if (ts.isUnionTypeNode(node)) {
+      // `X | undefined | null` → X
+      const rest = node.types.filter((t) => !isNullish(t));
+      return rest.length === 1 ? nestedFromType(text, sourceFile, rest[0]) : [];
+    }
+    if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName) && !node.typeArguments) {
+      return listProps(text, node.typeName.text);
+    }
+    return [];
+  }
+
+  function isNullish(node: TS.TypeNode): boolean {
+    if (node.kind === ts.SyntaxKind.UndefinedKeyword) return true;
+    return ts.isLiteralTypeNode(node) && node.literal.kind === ts.SyntaxKind.NullKeyword;
+  }
+
+  function memberName(name: TS.PropertyName | undefined): string | undefined {
+    if (!name) return undefined;
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) return name.text;
+    if (ts.isComputedPropertyName(name) && ts.isStringLiteralLike(name.expression)) return name.expression.text;
+    return undefined;
+  }
+
+  function toHeads(sourceFile: TS.SourceFile, members: ReadonlyArray<TS.TypeElement | TS.ClassElement>): PropHead[] {
+    const out: PropHead[] = [];
+    for (const member of members) {
+      const name = memberName(member.name);
+      if (name === undefined) continue; // index/call/construct signatures, symbol keys
+      out.push(toHead(sourceFile, member, name));
+    }
+    return out;
+  }
+
+  function toHead(sourceFile: TS.SourceFile, member: TS.Node, name: string): PropHead {
+    const text = sourceFile.text;
+    const headStart = member.getStart(sourceFile);
+    let i = headStart;
+    while (i > 0 && (text[i - 1] === ' ' || text[i - 1] === '\t')) i--;
+    return {
+      name,
+      headStart,
+      indent: text.slice(i, headStart),
+      doc: leadingDoc(text, member.pos, headStart),
+      optional: !!(member as { questionToken?: TS.QuestionToken }).questionToken,
+    };
+  }
+
+  /**
+   * The doc attached to a member: the last `/** ... *\/` block directly above it, or a run of
+   * `//` lines (which are rewritten into a JSDoc block on update). Ranges start at the line
+   * start when only whitespace precedes the comment, so re-rendered blocks replace the padding.
+   */
+  function leadingDoc(text: string, pos: number, headStart: number): { range: [number, number]; text: string } {
+    const none = { range: [headStart, headStart] as [number, number], text: '' };
+    // A block on the same line as the previous token is one of its trailing comments. It is
+    // this member's doc after the body's `{` (`{ /** doc */ host`) or when the member follows
+    // on that line (`a; /** doc */ b`); otherwise it is a note on the previous member.
+    let comments = ts.getLeadingCommentRanges(text, pos) ?? [];
+    if (!comments.length) {
+      comments = (ts.getTrailingCommentRanges(text, pos) ?? []).filter((c) =>
+        text.startsWith('/**', c.pos) && (text[pos - 1] === '{' || !text.slice(c.end, headStart).includes('\n')));
+    }
+    const last = comments[comments.length - 1];
+    if (!last || !/^\s*$/.test(text.slice(last.end, headStart))) return none;
+
+    let first = last;
+    if (last.kind === ts.SyntaxKind.MultiLineCommentTrivia) {
+      if (!text.startsWith('/**', last.pos)) return none;
+    } else {
+      for (let k = comments.length - 2; k >= 0; k--) {
+        const c = comments[k];
+        if (c.kind !== ts.SyntaxKind.SingleLineCommentTrivia || !/^\s*$/.test(text.slice(c.end, first.pos))) break;
+        first = c;
+      }
+    }
+
+    const lineStart = text.lastIndexOf('\n', first.pos - 1) + 1;
+    const start = /^[ \t]*$/.test(text.slice(lineStart, first.pos)) ? lineStart : first.pos;
+    return { range: [start, last.end], text: text.slice(first.pos, last.end) };
+  }
+
+  type Member = TS.PropertySignature | TS.MethodSignature | TS.PropertyDeclaration;
+
+  function findMemberAt(sourceFile: TS.SourceFile, headStart: number): Member | undefined {
+    const visit = (node: TS.Node): Member | undefined => {
+      if (headStart < node.pos || headStart >= node.end) return undefined;
+      if (
+        (ts.isPropertySignature(node) || ts.isMethodSignature(node) || ts.isPropertyDeclaration(node)) &&
+        node.getStart(sourceFile) === headStart
+      ) {
+        return node;
+      }
+      return ts.forEachChild(node, visit);
+    };
+    return visit(sourceFile);
+  }
+
+  return { listProps, listNestedProps, findFunction };
+}
@@ -0,0 +1,95 @@
+import type { PropHead, PropLocator, TargetKind } from '../types.js';
+import { extractLeadingJsdoc, readDefaultLiteralFromJsdoc, readSddDirective } from './jsdoc.js';
+import { regexLocator } from './locator.js';
+import { isPlainObject } from '../utils.js';
+
+
+/**
+ * Opt-in coverage check: the other direction of `assertDefaultsInDts`, looking at the
+ * declaration's members instead of the defaults' keys.
+ * - `undocumented`: optional members that have neither a runtime default nor a `@default` tag.
+ * - `stale`: members documenting a `@default`/`@defaultValue` whose key is not in `defaults`
+ *   (e.g. a default that was removed), with the documented literal.
+ *
+ * Members skipped or fixed by `overrides`, `@sddIgnore` or `@sddDefault` are not reported.
+ * With `recursive`, members of plain-object defaults are checked too (reported by dotted path).
+ * Function targets are not covered (their parameters carry no `@default` tags).
+ */
+export function checkDefaultsCoverage(params: CoverageParams): {
+  undocumented: string[];
+  stale: Array<{ prop: string; found: string }>;
+} {
+  const { undocumented, stale } = collectCoverage(params);
+  const byProp = new Map(stale.map(({ prop, found }) => [prop, found]));
+  return { undocumented, stale: [...byProp].map(([prop, found]) => ({ prop, found })) };
+}
+
+/**
+ * The members {@link checkDefaultsCoverage} reports as stale, with their heads (one entry per
+ * declaration of a merged member), so `inject` can prune their `@default` tags.
+ */
+export function listStaleDefaults(params: CoverageParams): Array<{ prop: string; found: string; head: PropHead }> {
+  return collectCoverage(params).stale;
+}
+
+type CoverageParams = {
+  dtsText: string;
+  interfaceName: string;
+  defaults: Record<string, unknown>;
+  recursive?: boolean;
+  locator?: PropLocator;
+  kind?: TargetKind;
+  constructorParam?: string;
+  overrides?: Partial<Record<string, string | false>>;
+};
+
+function collectCoverage(params: CoverageParams): {
+  undocumented: string[];
+  stale: Array<{ prop: string; found: string; head: PropHead }>;
+} {
+  const {
+    dtsText,
+    interfaceName,
+    defaults,
+    recursive = false,
+    locator = regexLocator,
+    kind,
+    constructorParam,
+    overrides = {},
+  } = params;
+
+  const undocumented = new Set<string>();
+  const stale: Array<{ prop: string; found: string; head: PropHead }> = [];
+  if (kind === 'function') return { undocumented: [], stale: [] };
+
+  const visit = (members: PropHead[], values: Record<string, unknown>, prefix: string, seen: Set<object>) => {
+    for (const p of members) {
+      const prop = prefix + p.name;
+      const { text: jsdocRaw } = p.doc ?? extractLeadingJsdoc(dtsText, p.headStart);
+      if (overrides[prop] !== undefined || readSddDirective(jsdocRaw) !== undefined) continue;
+
+      if (Object.prototype.hasOwnProperty.call(values, p.name)) {
+        let value: unknown;
+        try {
+          value = values[p.name];
+        } catch (_) {
+          continue; // Getter threw; assertDefaultsInDts reports it
+        }
+        if (recursive && isPlainObject(value) && !seen.has(value)) {
+          visit(locator.listNestedProps(dtsText, p), value, `${prop}.`, new Set(seen).add(value));
+        }
+        continue;
+      }
+
+      const found = readDefaultLiteralFromJsdoc(jsdocRaw);
+      if (found !== undefined) stale.push({ prop, found, head: p });
+      else if (p.optional) undocumented.add(prop);
+    }
+  };
+  visit(locator.listProps(dtsText, interfaceName, { kind, constructorParam }), defaults, '', new Set());
+
+  return {
+    undocumented: [...undocumented].filter((prop) => !stale.some((s) => s.prop === prop)),
+    stale,
+  };
+}
@@ -8,15 +8,15 @@ export function extractDeclarationBlock(
 
   const nameRe = escapeRe(name);
   const headRe = new RegExp(
-    //    ^line        export?    declare?    kind     Name         <generics?>
-    String.raw`(^|\n)[ \t]*(?:export\s+)?(?:declare\s+)?(interface|type)\s+${nameRe}(?:\s*<[^>{}]*>)?`,
+    //    ^line        export?    declare?    abstract?    kind     Name         <generics?>
+    String.raw`(^|\n)[ \t]*(?:export\s+)?(?:declare\s+)?(?:abstract\s+)?(interface|type|class|function)\s+${nameRe}(?:\s*<[^>{}]*>)?`,
     'g',
   );
 
   const m = headRe.exec(dtsText);
   if (!m) return null;
 
-  const kind = m[2] as 'interface' | 'type';
+  const kind = m[2] as 'interface' | 'type' | 'class' | 'function';
   const declHeadStart = m.index + (m[1] ? m[1].length : 0); // start of line indent
   let sliceStart = declHeadStart;
 
@@ -28,13 +28,18 @@ export function extractDeclarationBlock(
   // Find the end of the declaration.
   let sliceEnd = -1;
 
-  if (kind === 'interface') {
+  if (kind === 'function') {
+    // ambient signature: scan to the terminating ";" (first overload only)
+    const semi = scanTypeAliasEnd(dtsText, m.index + m[0].length);
+    if (semi === -1) return null;
+    sliceEnd = semi + 1;
+  } else if (kind !== 'type') {
     const open = dtsText.indexOf('{', m.index);
     if (open === -1) return null;
     const close = findMatchingBracket(dtsText, open, '{', '}');
     if (close === -1) return null;
     sliceEnd = close + 1;
-    // optional trailing semicolon for interface; include if present
+    // optional trailing semicolon for interface/class; include if present
     if (dtsText[sliceEnd] === ';') sliceEnd += 1;
   } else {
     // type alias: find "=" then scan to the terminating ";" with balancing
@@ -55,7 +60,7 @@ function escapeRe(s: string) {
   return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
-function skipSpace(s: string, i: number) {
+export function skipSpace(s: string, i: number) {
   while (i < s.length && /\s/.test(s[i])) i++;
   return i;
 }
@@ -83,7 +88,7 @@ function findLeadingJsdoc(text: string, declStart: number): { start: number; end
   return null;
 }
 
-function findMatchingBracket(s: string, openIdx: number, openCh: '{' | '(' | '[', closeCh: '}' | ')' | ']') {
+export function findMatchingBracket(s: string, openIdx: number, openCh: '{' | '(' | '[', closeCh: '}' | ')' | ']') {
   let depth = 0;
   let i = openIdx;
   let inS: '"' | "'" | '`' | null = null;
@@ -141,7 +146,7 @@ function findMatchingBracket(s: string, openIdx: number, openCh: '{' | '(' | '['
  * @param start - Character position to start scanning from (after the '=')
  * @returns Position of the terminating semicolon, or -1 if not found
  */
-function scanTypeAliasEnd(source: string, start: number) {
+export function scanTypeAliasEnd(source: string, start: number) {
   let i = start;
   let inS: '"' | "'" | '`' | null = null;
   let inLine = false;
@@ -1,8 +1,13 @@
 export { injectDefaultsIntoDts } from './inject.js';
 export { assertDefaultsInDts } from './assert.js';
-export { listInterfaceProps, findInterfaceBody } from './locator.js';
+export { checkDefaultsCoverage } from './coverage.js';
+export { listInterfaceProps, listNestedProps, findInterfaceBody, findDeclarationBodies, findFunction, findMemberHead, regexLocator } from './locator.js';
+export { createAstLocator } from './ast-locator.js';
 export { formatDefaultLiteral } from './jsdoc.js';
 export { renderJsdocCanonical } from './jsdoc.js';
 export { chooseDocIndent } from './jsdoc.js';
 export { extractLeadingJsdoc } from './jsdoc.js';
-export { upsertDefaultForProp } from './jsdoc.js';
\ No newline at end of file
+export { upsertDefaultForProp, removeDefaultFromProp } from './jsdoc.js';
+export { upsertParamDefaults } from './jsdoc.js';
+export { parseLiteral, literalsEqual } from './literal.js';
+export { serializeValue } from './serialize.js';
@@ -1,6 +1,19 @@
-import type { DTSEditResult, PreferredTag } from '../types.js';
-import { formatDefaultLiteral, upsertDefaultForProp, extractLeadingJsdoc, readDefaultLiteralFromJsdoc } from './jsdoc.js';
-import { listInterfaceProps } from './locator.js';
+import type { DTSEditResult, PreferredTag, PropHead, PropLocator, TargetKind, ValueSerializer } from '../types.js';
+import {
+  formatDefaultLiteral,
+  upsertDefaultForProp,
+  upsertParamDefaults,
+  extractLeadingJsdoc,
+  readDefaultLiteralFromJsdoc,
+  readParamDefaultFromJsdoc,
+  renderDefaultTagText,
+  isMultilineDefault,
+  readSddDirective,
+  removeDefaultFromProp,
+} from './jsdoc.js';
+import { regexLocator } from './locator.js';
+import { listStaleDefaults } from './coverage.js';
+import { isPlainObject } from '../utils.js';
 
 
 /**
@@ -8,24 +21,74 @@ import { listInterfaceProps } from './locator.js';
  * - Rewrites/creates a canonical JSDoc above each property.
  * - Idempotent: no changes when the literal already matches and the preferred tag is already used.
  * - Tag normalization: will switch `@defaultValue` ↔ `@default` to match `preferredTag`.
+ * - Values are rendered by `serialize` (default: {@link formatDefaultLiteral}, which writes TS
+ *   expressions such as `new Map([...])` or `10n` for non-JSON values).
+ * - Object/array literals longer than `inlineWidth` (default 80) are pretty-printed on the lines
+ *   below the tag; a block whose layout no longer matches the width is re-rendered.
  * - Only properties present in `defaults` are considered; properties missing from the interface are
  *   reported via the `missing` array (they are not added to the interface).
+ * - With `recursive`, plain-object defaults are also descended into: members of the property's
+ *   inline object type (or of an interface/type alias it references in the same text) receive
+ *   their own `@default`, and missing nested members are reported by dotted path (`retry.backoffMs`).
+ * - `locator` selects how members are found (defaults to the regex scanner); when it reports
+ *   exact doc ranges, those are edited instead of re-detecting the block above each head.
+ * - With `kind: 'class'`, `interfaceName` names a class; its property declarations (and the members
+ *   of `constructorParam`'s type, if given) are documented. A key matching both a field and a
+ *   constructor option documents both.
+ * - With `kind: 'function'`, `interfaceName` names a function and defaults are written to its own
+ *   JSDoc as `@param` tags (`@param opts.timeout - ... (default: 30000)` when `param` is `'opts'`,
+ *   otherwise `@param <key>`); keys that are not parameters (or option members) are reported missing.
+ * - `overrides` (keyed by property path) replace the literal with a fixed text, or skip the member
+ *   when `false`. Members whose doc carries `@sddIgnore` are skipped too, and `@sddDefault <text>`
+ *   documents `<text>` instead of the runtime value (`overrides` take precedence; function targets
+ *   only honor `overrides`).
+ * - With `prune`, `@default`/`@defaultValue` tags of members whose key is not in `defaults` are
+ *   removed (the rest of the doc is kept; a block left empty is deleted). Pruned members are
+ *   reported in `pruned` and counted in `updatedCount`. Function targets are not pruned.
  */
 export function injectDefaultsIntoDts(params: {
   dtsText: string;
   interfaceName: string;
   defaults: Record<string, unknown>;
   preferredTag: PreferredTag;
+  recursive?: boolean;
+  locator?: PropLocator;
+  kind?: TargetKind;
+  constructorParam?: string;
+  param?: string;
+  inlineWidth?: number;
+  serialize?: ValueSerializer;
+  overrides?: Partial<Record<string, string | false>>;
+  prune?: boolean;
 }): DTSEditResult {
-  const { dtsText, interfaceName, defaults, preferredTag } = params;
+  const {
+    dtsText,
+    interfaceName,
+    defaults,
+    preferredTag,
+    recursive = false,
+    locator = regexLocator,
+    kind,
+    constructorParam,
+    param,
+    inlineWidth,
+    serialize = formatDefaultLiteral,
+    overrides = {},
+    prune = false,
+  } = params;
+
+  if (kind === 'function') {
+    return injectParamDefaults({ dtsText, functionName: interfaceName, defaults, param, locator, serialize, overrides });
+  }
 
   // snapshot of props
-  const props = listInterfaceProps(dtsText, interfaceName);
+  const props = locator.listProps(dtsText, interfaceName, { kind, constructorParam });
   if (!props.length) {
     return {
       updatedText: dtsText,
       updatedCount: 0,
       missing: Object.keys(defaults).map((k) => ({ interfaceName, prop: k })),
+      changes: [],
     };
   }
 
@@ -33,38 +96,68 @@ export function injectDefaultsIntoDts(params: {
     prop: string;
     headStart: number;
     indent: string;
-    expected: string;
+    doc?: PropHead['doc'];
+    /** The literal to write, or `undefined` to prune the member's default. */
+    expected?: string;
   };
   const tasks: Task[] = [];
   const missing: Array<{ interfaceName: string; prop: string }> = [];
 
   // Build tasks + compute expected literals
-  for (const prop in defaults) {
-    if (!Object.prototype.hasOwnProperty.call(defaults, prop)) continue;
-    
-    let value: unknown;
-    try {
-      value = defaults[prop];
-    } catch (_) {
-      // Getter threw, skip this property
-      missing.push({ interfaceName, prop });
-      continue;
+  const collect = (
+    members: typeof props,
+    values: Record<string, unknown>,
+    prefix: string,
+    seen: Set<object>,
+  ) => {
+    for (const key in values) {
+      if (!Object.prototype.hasOwnProperty.call(values, key)) continue;
+      const prop = prefix + key;
+
+      let value: unknown;
+      try {
+        value = values[key];
+      } catch (_) {
+        // Getter threw, skip this property
+        missing.push({ interfaceName, prop });
+        continue;
+      }
+
+      const matches = members.filter((p) => p.name === key);
+      if (!matches.length) {
+        missing.push({ interfaceName, prop });
+        continue;
+      }
+
+      for (const p of matches) {
+        const override = overrides[prop] ?? readSddDirective((p.doc ?? extractLeadingJsdoc(dtsText, p.headStart)).text);
+        if (override === false) continue;
+
+        // A referenced interface may be shared by several members; the first path wins.
+        if (!tasks.some((t) => t.headStart === p.headStart)) {
+          tasks.push({
+            prop,
+            headStart: p.headStart,
+            indent: p.indent,
+            doc: p.doc,
+            expected: override ?? serialize(value, { interfaceName, prop }),
+          });
+        }
+
+        if (recursive && isPlainObject(value) && !seen.has(value)) {
+          const nested = locator.listNestedProps(dtsText, p);
+          if (nested.length) collect(nested, value, `${prop}.`, new Set(seen).add(value));
+        }
+      }
     }
+  };
+  collect(props, defaults, '', new Set());
 
-    const p = props.find((p) => p.name === prop);
-    if (!p) {
-      missing.push({ interfaceName, prop });
-      continue;
+  const pruned: Array<{ interfaceName: string; prop: string }> = [];
+  if (prune) {
+    for (const { prop, head } of listStaleDefaults({ dtsText, interfaceName, defaults, recursive, locator, kind, constructorParam, overrides })) {
+      tasks.push({ prop, headStart: head.headStart, indent: head.indent, doc: head.doc });
     }
-    const expected = formatDefaultLiteral(value);
-
-    // If already correct, skip work (we'll check against the doc next)
-    tasks.push({
-      prop,
-      headStart: p.headStart,
-      indent: p.indent,
-      expected,
-    });
   }
 
   // Sort bottom→top so earlier indices aren't invalidated by later edits
@@ -72,26 +165,43 @@ export function injectDefaultsIntoDts(params: {
 
   let text = dtsText;
   let updated = 0;
+  const changes: DTSEditResult['changes'] = [];
 
   for (const task of tasks) {
     // Re-check current value from the current text (not the original)
-    const { text: jsdocRaw } = extractLeadingJsdoc(text, task.headStart);
+    const { text: jsdocRaw } = task.doc ?? extractLeadingJsdoc(text, task.headStart);
     const found = readDefaultLiteralFromJsdoc(jsdocRaw);
 
+    if (task.expected === undefined) {
+      const next = removeDefaultFromProp(text, task.headStart, task.indent, task.doc);
+      if (next !== text) {
+        text = next;
+        updated++;
+        pruned.push({ interfaceName, prop: task.prop });
+        changes.push({ prop: task.prop, before: found });
+      }
+      continue;
+    }
+
     // detect which tag kinds are present (works for both single-line and multi-line docs)
     const hasDefault = /@default(\s|$)/m.test(jsdocRaw ?? '');
     const hasDefaultValue = /@defaultValue(\s|$)/m.test(jsdocRaw ?? '');
     const hasPreferred = preferredTag === 'default' ? hasDefault : hasDefaultValue;
     const hasOther     = preferredTag === 'default' ? hasDefaultValue : hasDefault;
 
+    // ...and whether the current layout (inline vs pretty-printed) is the one we would render
+    const wantsMultiline = renderDefaultTagText(task.expected, inlineWidth).includes('\n');
+    const sameLayout = isMultilineDefault(jsdocRaw) === wantsMultiline;
+
     // only skip when the value matches AND we're already using the preferred tag
     // (i.e., nothing to normalize). Otherwise, call upsert to normalize.
-    if (found === task.expected && hasPreferred && !hasOther) {
+    if (found === task.expected && hasPreferred && !hasOther && sameLayout) {
       continue;
     }
 
-    text = upsertDefaultForProp(text, task.headStart, task.indent, task.expected, preferredTag);
+    text = upsertDefaultForProp(text, task.headStart, task.indent, task.expected, preferredTag, task.doc, inlineWidth);
     updated++;
+    changes.push({ prop: task.prop, before: found, after: task.expected });
 
     // For maximal safety at the cost of performance,
     // recompute the latest headStart here instead of sorting:
@@ -100,5 +210,70 @@ export function injectDefaultsIntoDts(params: {
     // text = upsertDefaultForProp(text, latest.headStart, latest.indent, task.expected, preferredTag);
   }
 
-  return { updatedText: text, updatedCount: updated, missing };
+  return {
+    updatedText: text,
+    updatedCount: updated,
+    missing,
+    // edits ran bottom→top; report them in document order
+    changes: changes.reverse(),
+    ...(prune ? { pruned: pruned.reverse() } : {}),
+  };
+}
+
+/** Function targets: write every default as a `@param` tag of the function's JSDoc in one edit. */
+function injectParamDefaults(params: {
+  dtsText: string;
+  functionName: string;
+  defaults: Record<string, unknown>;
+  param?: string;
+  locator: PropLocator;
+  serialize: ValueSerializer;
+  overrides: Partial<Record<string, string | false>>;
+}): DTSEditResult {
+  const { dtsText, functionName, defaults, param, locator, serialize, overrides } = params;
+  const fn = locator.findFunction(dtsText, functionName, { param });
+  const missing: Array<{ interfaceName: string; prop: string }> = [];
+  if (!fn) {
+    return {
+      updatedText: dtsText,
+      updatedCount: 0,
+      missing: Object.keys(defaults).map((k) => ({ interfaceName: functionName, prop: k })),
+      changes: [],
+    };
+  }
+
+  const { text: jsdocRaw } = fn.doc ?? extractLeadingJsdoc(dtsText, fn.headStart);
+  const entries: Array<{ name: string; literal: string }> = [];
+  const changes: DTSEditResult['changes'] = [];
+  for (const key of Object.keys(defaults)) {
+    let value: unknown;
+    try {
+      value = defaults[key];
+    } catch (_) {
+      // Getter threw, skip this property
+      missing.push({ interfaceName: functionName, prop: key });
+      continue;
+    }
+    if (!fn.params.includes(key)) {
+      missing.push({ interfaceName: functionName, prop: key });
+      continue;
+    }
+    const override = overrides[key];
+    if (override === false) continue;
+    const name = param ? `${param}.${key}` : key;
+    const literal = override ?? serialize(value, { interfaceName: functionName, prop: key });
+    const before = readParamDefaultFromJsdoc(jsdocRaw, name);
+    if (before !== literal) {
+      entries.push({ name, literal });
+      changes.push({ prop: key, before, after: literal });
+    }
+  }
+
+  if (!entries.length) return { updatedText: dtsText, updatedCount: 0, missing, changes };
+  return {
+    updatedText: upsertParamDefaults(dtsText, fn.headStart, fn.indent, entries, fn.doc),
+    updatedCount: entries.length,
+    missing,
+    changes,
+  };
 }
@@ -1,4 +1,6 @@
-import type { JSDoc, PreferredTag } from '../types.js';
+import type { JSDoc, PreferredTag, SerializeContext, SerializerHook } from '../types.js';
+import { parseLiteral } from './literal.js';
+import { serializeValue } from './serialize.js';
 
 
 /** Choose the indent for the new doc: prefer the property's indent.
@@ -114,16 +116,36 @@ export function parseJsdoc(raw: string | undefined): JSDoc {
     .map(l => l.replace(/^\s*\*\s?/, '').trimRight());
 
   const description: string[] = [];
-  const tags: Array<{ tag: string; text: string }> = [];
+  const tags: Array<{ tag: string; first: string; lines: string[] }> = [];
 
   for (const line of body) {
     // Allow leading spaces before @tag so single-line docs like
     // "/**  @defaultValue \"x\" */" are parsed as tags, not description.
     const match = line.match(/^\s*@(\w+)\s*(.*)$/);
-    if (match) tags.push({ tag: match[1], text: (match[2] ?? '').trim() });
+    const last = tags[tags.length - 1];
+    if (match) tags.push({ tag: match[1], first: (match[2] ?? '').trim(), lines: [] });
+    else if (last && (last.tag === 'default' || last.tag === 'defaultValue')) last.lines.push(line);
     else description.push(line);
   }
-  return { description: trimBlank(description), tags };
+  const parsedTags = tags.map(({ tag, first, lines }) => {
+    // Only a pretty-printed literal continues a default tag; other lines stay description.
+    const taken = literalBodyLength(first, lines);
+    description.push(...lines.slice(taken));
+    return { tag, text: [first, ...trimBlank(lines.slice(0, taken))].join('\n') };
+  });
+  return { description: trimBlank(description), tags: parsedTags };
+}
+
+/**
+ * How many of the lines after `@default <first>` belong to its literal: the most that still
+ * parse as one literal together with `first`, or all of them when the tag line is empty and the
+ * next line opens an object/array/map/set that does not parse (yet).
+ */
+function literalBodyLength(first: string, lines: string[]): number {
+  for (let n = lines.length; n > 0; n--) {
+    if (parseLiteral([first, ...lines.slice(0, n)].join('\n')).ok) return n;
+  }
+  return !first && /^\s*(?:[[{]|new (?:Map|Set)\()/.test(lines[0] ?? '') ? lines.length : 0;
 }
 
 function trimBlank(lines: string[]): string[] {
@@ -133,7 +155,20 @@ function trimBlank(lines: string[]): string[] {
   return out;
 }
 
-/** Render a canonical JSDoc block with normalized `@default` or `@defaultValue`. */
+/** Default `inlineWidth`: longer object/array literals are pretty-printed below the tag. */
+export const DEFAULT_INLINE_WIDTH = 80;
+
+/**
+ * Render a canonical JSDoc block with normalized `@default` or `@defaultValue`.
+ * Object/array literals longer than `inlineWidth` are written as indented JSON below the tag:
+ * 
+ * ```
+ * @default
+ * {
+ *   "retry": 3
+ * }
+ * ```
+ */
 export function renderJsdocCanonical(options: {
   indent: string;                     // indent to use for ALL doc lines
   starPad?: ' ' | '';                 // ' ' to render " * ", '' to render " *"
@@ -141,11 +176,31 @@ export function renderJsdocCanonical(options: {
   tags: Array<{ tag: string; text: string }>;
   defaultLiteral: string;
   preferredTag: PreferredTag;
+  inlineWidth?: number;
 }): string {
-  const { indent, starPad = ' ', description, tags, defaultLiteral, preferredTag } = options;
+  const { indent, starPad = ' ', description, tags, defaultLiteral, preferredTag, inlineWidth } = options;
 
   const rest = tags.filter(t => t.tag !== 'default' && t.tag !== 'defaultValue');
+  const text = renderDefaultTagText(defaultLiteral, inlineWidth);
+  return renderJsdocBlock(indent, starPad, description, [{ tag: preferredTag, text }, ...rest]);
+}
+
+/**
+ * The text that follows `@default` for a literal: the literal itself, or (for long
+ * objects/arrays/maps/sets) a newline and the literal pretty-printed with 2-space indentation.
+ */
+export function renderDefaultTagText(literal: string, inlineWidth = DEFAULT_INLINE_WIDTH): string {
+  if (literal.length <= inlineWidth || !/^(?:[[{]|new (?:Map|Set)\()/.test(literal)) return literal;
+  const parsed = parseLiteral(literal);
+  return parsed.ok ? '\n' + serializeValue(parsed.value, 2) : literal;
+}
 
+function renderJsdocBlock(
+  indent: string,
+  starPad: ' ' | '',
+  description: string[],
+  tags: Array<{ tag: string; text: string }>,
+): string {
   // Build with explicit indent on every line. No trimming.
   const open  = `${indent}/**`;
   const star  = (s = '') => `${indent} *${starPad}${s}`;
@@ -156,34 +211,46 @@ export function renderJsdocCanonical(options: {
 
   if (description.length) {
     for (const l of description) out.push(star(l));
-    out.push(star()); // blank line between description and tags
+    if (tags.length) out.push(star()); // blank line between description and tags
   }
 
-  out.push(star(`@${preferredTag} ${defaultLiteral}`));
-  for (const t of rest) out.push(star(`${t.tag ? '@' + t.tag : ''}${t.text ? ' ' + t.text : ''}`));
+  for (const t of tags) {
+    const [first, ...more] = t.text.split('\n');
+    out.push(star(`${t.tag ? '@' + t.tag : ''}${first ? ' ' + first : ''}`));
+    for (const l of more) out.push(star(l));
+  }
 
   out.push(close);
   return out.join('\n');
 }
 
-/** Create/replace the docblock above a property head with a canonical block containing the default. */
+/**
+ * Create/replace the docblock above a property head with a canonical block containing the default.
+ * Pass `existingDoc` when the locator already knows the exact doc range; otherwise it is
+ * re-detected with {@link extractLeadingJsdoc}. Long object/array literals are pretty-printed
+ * (see {@link renderJsdocCanonical}).
+ */
 export function upsertDefaultForProp(
   fullText: string,
   propHeadStart: number,
   propIndent: string,
   literal: string,
   preferredTag: PreferredTag,
+  existingDoc?: { range?: [number, number]; text?: string },
+  inlineWidth?: number,
 ): string {
   const EOL = fullText.includes('\r\n') ? '\r\n' : '\n';
-  const found = extractLeadingJsdoc(fullText, propHeadStart);
+  const found = existingDoc ?? extractLeadingJsdoc(fullText, propHeadStart);
 
   // If there's no existing block, create one right away.
   if (!found.text) {
     // Normalize the indent (preserve “off-by-one” if your locator gave you one)
     const baseIndent = propIndent ?? '';
+    const [first, ...more] = renderDefaultTagText(literal, inlineWidth).split('\n');
     const block =
       `/**${EOL}` +
-      `${baseIndent} * @${preferredTag} ${literal}${EOL}` +
+      `${baseIndent} * @${preferredTag}${first ? ' ' + first : ''}${EOL}` +
+      more.map(l => `${baseIndent} * ${l}${EOL}`).join('') +
       `${baseIndent} */${EOL}` +
       `${baseIndent}`;
 
@@ -203,8 +270,50 @@ export function upsertDefaultForProp(
     tags: parsed.tags,
     defaultLiteral: literal,
     preferredTag,
+    inlineWidth,
   });
 
+  return replaceDoc(fullText, propHeadStart, found, next);
+}
+
+/**
+ * Remove `@default`/`@defaultValue` from the docblock above a property head, keeping the rest of
+ * the JSDoc. A block left without description or tags is removed entirely (with its line).
+ * Returns `fullText` unchanged when the doc has no default tag.
+ */
+export function removeDefaultFromProp(
+  fullText: string,
+  propHeadStart: number,
+  propIndent: string,
+  existingDoc?: { range?: [number, number]; text?: string },
+): string {
+  const found = existingDoc ?? extractLeadingJsdoc(fullText, propHeadStart);
+  if (!found.text || !found.range) return fullText;
+
+  const parsed = parseJsdoc(found.text);
+  const rest = parsed.tags.filter(t => t.tag !== 'default' && t.tag !== 'defaultValue');
+  if (rest.length === parsed.tags.length) return fullText;
+
+  if (!rest.length && !parsed.description.some(l => l.trim())) {
+    // Drop the block and everything up to the head; keep the head's indent when the block
+    // started its own line.
+    const start = found.range[0];
+    const ownLine = start === 0 || fullText[start - 1] === '\n';
+    return fullText.slice(0, start) + (ownLine ? propIndent : '') + fullText.slice(propHeadStart);
+  }
+
+  const baseIndent = chooseDocIndent(propIndent, detectDocIndent(fullText, found.range[0]));
+  const next = renderJsdocBlock(baseIndent, detectStarPadFromDoc(found.text), parsed.description, rest);
+  return replaceDoc(fullText, propHeadStart, found, next);
+}
+
+/** Put a rendered block in place of `found` (or directly above the head when it has no range). */
+function replaceDoc(
+  fullText: string,
+  propHeadStart: number,
+  found: { range?: [number, number] },
+  next: string,
+): string {
   if (found.range) {
     // If the original docblock is followed by a newline already, don't add another.
     const afterChar = fullText[found.range[1]] ?? '';
@@ -218,22 +327,140 @@ export function upsertDefaultForProp(
   return fullText.slice(0, propHeadStart) + next + sep + fullText.slice(propHeadStart);
 }
 
-/** Extract existing default literal text from a JSDoc (accepts @default or @defaultValue). */
+/**
+ * Create/replace the docblock above a function head so each `@param <name>` tag ends with
+ * ` (default: <literal>)`. Existing `@param` descriptions are kept (a previous default suffix is
+ * replaced); parameters without a tag get `@param <name> - (default: <literal>)`, added after
+ * the last existing `@param`.
+ * 
+ * @param entries - Dotted parameter names (`opts.timeout`) and their default literals
+ * @example
+ * upsertParamDefaults(text, head, '', [{ name: 'opts.timeout', literal: '30000' }]);
+ * // @param opts.timeout - Request timeout (default: 30000)
+ */
+export function upsertParamDefaults(
+  fullText: string,
+  fnHeadStart: number,
+  fnIndent: string,
+  entries: Array<{ name: string; literal: string }>,
+  existingDoc?: { range?: [number, number]; text?: string },
+): string {
+  const EOL = fullText.includes('\r\n') ? '\r\n' : '\n';
+  const found = existingDoc ?? extractLeadingJsdoc(fullText, fnHeadStart);
+  const parsed = parseJsdoc(found.text);
+
+  const tags = [...parsed.tags];
+  for (const { name, literal } of entries) {
+    const suffix = `(default: ${literal})`;
+    const index = tags.findIndex(t => t.tag === 'param' && paramTagName(t.text) === name);
+    if (index !== -1) {
+      const text = tags[index].text.replace(PARAM_DEFAULT_RE, '');
+      const sep = text.trim() === paramTagHead(text) ? ' - ' : ' ';
+      tags[index] = { tag: 'param', text: `${text}${sep}${suffix}` };
+      continue;
+    }
+    let last = -1;
+    tags.forEach((t, i) => { if (t.tag === 'param') last = i; });
+    tags.splice(last + 1, 0, { tag: 'param', text: `${name} - ${suffix}` });
+  }
+
+  if (!found.text) {
+    const block = renderJsdocBlock(fnIndent, ' ', [], tags).replace(/\n/g, EOL);
+    // The head keeps its own indent; the block's first line reuses it.
+    return fullText.slice(0, fnHeadStart) + block.slice(fnIndent.length) + EOL + fnIndent + fullText.slice(fnHeadStart);
+  }
+
+  const existingDocIndent = found.range ? detectDocIndent(fullText, found.range[0]) : undefined;
+  const next = renderJsdocBlock(
+    chooseDocIndent(fnIndent, existingDocIndent),
+    detectStarPadFromDoc(found.text),
+    parsed.description,
+    tags,
+  );
+  return replaceDoc(fullText, fnHeadStart, found, next);
+}
+
+/** Extract the default literal recorded for `@param <name>` (as written by {@link upsertParamDefaults}). */
+export function readParamDefaultFromJsdoc(raw: string | undefined, name: string): string | undefined {
+  if (!raw) return undefined;
+  const tag = parseJsdoc(raw).tags.find(t => t.tag === 'param' && paramTagName(t.text) === name);
+  return tag?.text.match(PARAM_DEFAULT_RE)?.[1].trim() || undefined;
+}
+
+const PARAM_DEFAULT_RE = /\s*\(default: (.*)\)\s*$/;
+
+/** `{type} [name=x] desc` → `{type} [name=x]` (the part of a `@param` tag before its description). */
+function paramTagHead(text: string): string {
+  return text.match(/^(?:\{[^}]*\}\s*)?(?:\[[^\]]*\]|\S+)/)?.[0] ?? '';
+}
+
+/** The parameter name of a `@param` tag text: `{number} [opts.timeout=5] - desc` → `opts.timeout`. */
+function paramTagName(text: string): string {
+  return paramTagHead(text).replace(/^\{[^}]*\}\s*/, '').replace(/^\[([^=\]]*).*$/, '$1').trim();
+}
+
+/**
+ * Extract existing default literal text from a JSDoc (accepts @default or @defaultValue).
+ * Multi-line (pretty-printed) JSON bodies are read back in compact form, so they compare
+ * equal to {@link formatDefaultLiteral} output.
+ */
 export function readDefaultLiteralFromJsdoc(raw: string | undefined): string | undefined {
   if (!raw) return undefined;
   const jsdoc = parseJsdoc(raw);
   const tag = jsdoc.tags.find(t => t.tag === 'default' || t.tag === 'defaultValue');
-  return tag?.text?.trim() || undefined;
+  const text = tag?.text?.trim();
+  if (!text?.includes('\n')) return text || undefined;
+  const parsed = parseLiteral(text);
+  return parsed.ok ? serializeValue(parsed.value) : text;
 }
 
-/** Format a JS value as a compact literal for doc display. */
-export function formatDefaultLiteral(value: unknown): string {
-  if (typeof value === 'string') return JSON.stringify(value);
-  if (typeof value === 'number' || typeof value === 'boolean' || value === null) return String(value);
+/** Whether the `@default`/`@defaultValue` body of a JSDoc spans several lines. */
+export function isMultilineDefault(raw: string | undefined): boolean {
+  const tag = parseJsdoc(raw).tags.find(t => t.tag === 'default' || t.tag === 'defaultValue');
+  return !!tag?.text.trim().includes('\n');
+}
+
+/**
+ * Per-property directive written in a member's JSDoc: `@sddIgnore` yields `false` (leave the
+ * member alone), `@sddDefault <literal>` the literal to document instead of the runtime value.
+ */
+export function readSddDirective(raw: string | undefined): string | false | undefined {
+  const tags = parseJsdoc(raw).tags;
+  if (tags.some(t => t.tag === 'sddIgnore')) return false;
+  return tags.find(t => t.tag === 'sddDefault')?.text.trim() || undefined;
+}
+
+/**
+ * Format a JS value as a compact literal for doc display (see {@link renderDefaultTagText} for layout).
+ * `serializers` are consulted first, for the value and every value nested in it (with `ctx`);
+ * the first string returned is written verbatim. Everything else is rendered as TS expressions by
+ * {@link serializeValue}; anything it cannot render (functions, symbols, circular structures)
+ * falls back to `String(value)`. Errors thrown by a serializer propagate.
+ */
+export function formatDefaultLiteral(
+  value: unknown,
+  ctx?: SerializeContext,
+  serializers: readonly SerializerHook[] = [],
+): string {
+  let hookError: { error: unknown } | undefined;
+  const replace = ctx && serializers.length
+    ? (v: unknown) => {
+      try {
+        for (const serializer of serializers) {
+          const out = serializer(v, ctx);
+          if (typeof out === 'string') return out;
+        }
+        return undefined;
+      } catch (error) {
+        hookError = { error };
+        throw error;
+      }
+    }
+    : undefined;
   try {
-    const s = JSON.stringify(value);
-    return s.length > 120 ? s.slice(0, 117) + '...' : s;
+    return serializeValue(value, 0, replace);
   } catch {
+    if (hookError) throw hookError.error;
     return String(value);
   }
 }
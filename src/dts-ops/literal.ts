@@ -0,0 +1,306 @@
+/**
+ * Parse a documented default literal using the JSON5 / JS-literal grammar:
+ * objects (quoted or bare keys, trailing commas), arrays, single/double/backtick strings
+ * (without interpolation), numbers (hex/octal/binary, exponents, `_` separators, leading `+`,
+ * `Infinity`, `NaN`), `true`/`false`/`null`/`undefined`, and comments.
+ * The expressions written by `serializeValue` are understood too: BigInt literals (`10n`),
+ * `Number.POSITIVE_INFINITY` and other numeric `Number.*` constants, regex literals,
+ * `new Date(...)`, `new Map([...])` and `new Set([...])`.
+ *
+ * @param text - Literal text as written after `@default`
+ * @returns `{ ok: true, value }` when the whole text is one literal, `{ ok: false }` otherwise
+ * @example
+ * parseLiteral("{ a: 1, 'b': [1e3,], }") // → { ok: true, value: { a: 1, b: [1000] } }
+ * parseLiteral("Duration.seconds(30)")   // → { ok: false }
+ */
+export function parseLiteral(text: string): { ok: true; value: unknown } | { ok: false } {
+  const parser = new LiteralParser(text);
+  try {
+    const value = parser.value();
+    parser.end();
+    return { ok: true, value };
+  } catch {
+    return { ok: false };
+  }
+}
+
+/**
+ * Compare a documented literal with the expected one.
+ * - `strict`: byte-exact text comparison.
+ * - otherwise both sides are parsed with {@link parseLiteral} and compared structurally
+ *   (object key order and formatting are ignored, `'x'` equals `"x"`, `1e3` equals `1000`).
+ *   When either side is not a literal (e.g. a custom expression), the texts must match exactly.
+ *
+ * @param found - Literal read from the doc (undefined when missing)
+ * @param expected - Literal rendered from the runtime value
+ * @param strict - Require byte-exact equality (default: false)
+ */
+export function literalsEqual(found: string | undefined, expected: string, strict = false): boolean {
+  if (found === undefined) return false;
+  if (found === expected || strict) return found === expected;
+  const a = parseLiteral(found);
+  const b = parseLiteral(expected);
+  return a.ok && b.ok && deepEqual(a.value, b.value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && Object.is(a.getTime(), b.getTime());
+  }
+  if (a instanceof RegExp || b instanceof RegExp) return String(a) === String(b);
+  if (a instanceof Map || b instanceof Map || a instanceof Set || b instanceof Set) {
+    // Entry order does not matter; entries are compared pairwise
+    if (a.constructor !== b.constructor) return false;
+    const ea = [...(a as Map<unknown, unknown> | Set<unknown>).entries()];
+    const eb = [...(b as Map<unknown, unknown> | Set<unknown>).entries()];
+    return ea.length === eb.length && ea.every((entry) => eb.some((other) => deepEqual(entry, other)));
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((v, i) => deepEqual(v, other[i]));
+  }
+  const oa = a as Record<string, unknown>;
+  const ob = b as Record<string, unknown>;
+  const ka = Object.keys(oa);
+  const kb = Object.keys(ob);
+  return (
+    ka.length === kb.length &&
+    ka.every((k) => Object.prototype.hasOwnProperty.call(ob, k) && deepEqual(oa[k], ob[k]))
+  );
+}
+
+const IDENT_START = /[A-Za-z_$]/;
+const IDENT_PART = /[\w$]/;
+
+class LiteralParser {
+  private i = 0;
+
+  constructor(private readonly s: string) {}
+
+  end(): void {
+    this.space();
+    if (this.i < this.s.length) this.fail();
+  }
+
+  value(): unknown {
+    this.space();
+    const ch = this.s[this.i];
+    if (ch === '{') return this.object();
+    if (ch === '[') return this.array();
+    if (ch === '"' || ch === "'" || ch === '`') return this.string();
+    if (ch === '/') return this.regex();
+    if (ch !== undefined && /[\d.+-]/.test(ch)) return this.number();
+
+    const word = this.identifier();
+    switch (word) {
+      case 'true': return true;
+      case 'false': return false;
+      case 'null': return null;
+      case 'undefined': return undefined;
+      case 'Infinity': return Infinity;
+      case 'NaN': return NaN;
+      case 'Number': {
+        this.space();
+        if (!this.eat('.')) this.fail();
+        this.space();
+        const constant = (Number as unknown as Record<string, unknown>)[this.identifier()];
+        return typeof constant === 'number' ? constant : this.fail();
+      }
+      case 'new': return this.construct();
+      default: return this.fail();
+    }
+  }
+
+  /** `new Date(...)`, `new Map([...])`, `new Set([...])` with literal arguments. */
+  private construct(): unknown {
+    this.space();
+    const ctor = this.identifier();
+    this.space();
+    if (!this.eat('(')) this.fail();
+    this.space();
+    const args: unknown[] = [];
+    while (!this.eat(')')) {
+      args.push(this.value());
+      this.space();
+      if (!this.eat(',') && this.s[this.i] !== ')') this.fail();
+      this.space();
+    }
+    if (ctor === 'Date' && args.length === 1 && (typeof args[0] === 'string' || typeof args[0] === 'number')) {
+      return new Date(args[0]);
+    }
+    if ((ctor === 'Map' || ctor === 'Set') && args.length <= 1 && (args[0] === undefined || Array.isArray(args[0]))) {
+      const items = (args[0] ?? []) as unknown[];
+      if (ctor === 'Set') return new Set(items);
+      if (!items.every((e) => Array.isArray(e) && e.length === 2)) this.fail();
+      return new Map(items as Array<[unknown, unknown]>);
+    }
+    return this.fail();
+  }
+
+  private regex(): RegExp {
+    const start = ++this.i; // opening /
+    let inClass = false;
+    for (;;) {
+      const ch = this.s[this.i++];
+      if (ch === undefined || ch === '\n') return this.fail();
+      if (ch === '\\') this.i++;
+      else if (ch === '[') inClass = true;
+      else if (ch === ']') inClass = false;
+      else if (ch === '/' && !inClass) break;
+    }
+    const source = this.s.slice(start, this.i - 1);
+    const flags = this.s.slice(this.i).match(/^[a-z]*/)![0];
+    this.i += flags.length;
+    try {
+      return new RegExp(source, flags);
+    } catch {
+      return this.fail();
+    }
+  }
+
+  private object(): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    this.i++; // {
+    for (;;) {
+      this.space();
+      if (this.eat('}')) return out;
+      const ch = this.s[this.i];
+      const key =
+        ch === '"' || ch === "'" || ch === '`' ? this.string()
+        : ch !== undefined && /[\d.]/.test(ch) ? String(this.number())
+        : this.identifier();
+      this.space();
+      if (!this.eat(':')) this.fail();
+      Object.defineProperty(out, key, { value: this.value(), enumerable: true, writable: true, configurable: true });
+      this.space();
+      if (this.eat('}')) return out;
+      if (!this.eat(',')) this.fail();
+    }
+  }
+
+  private array(): unknown[] {
+    const out: unknown[] = [];
+    this.i++; // [
+    for (;;) {
+      this.space();
+      if (this.eat(']')) return out;
+      out.push(this.value());
+      this.space();
+      if (this.eat(']')) return out;
+      if (!this.eat(',')) this.fail();
+    }
+  }
+
+  private string(): string {
+    const quote = this.s[this.i++];
+    let out = '';
+    for (;;) {
+      const ch = this.s[this.i++];
+      if (ch === undefined) return this.fail();
+      if (ch === quote) return out;
+      if (quote === '`' && ch === '$' && this.s[this.i] === '{') this.fail(); // interpolation
+      if (ch !== '\\') {
+        out += ch;
+        continue;
+      }
+      const esc = this.s[this.i++];
+      switch (esc) {
+        case 'n': out += '\n'; break;
+        case 't': out += '\t'; break;
+        case 'r': out += '\r'; break;
+        case 'b': out += '\b'; break;
+        case 'f': out += '\f'; break;
+        case 'v': out += '\v'; break;
+        case '0': out += '\0'; break;
+        case 'x': out += String.fromCharCode(this.hex(2)); break;
+        case 'u':
+          if (this.eat('{')) {
+            const close = this.s.indexOf('}', this.i);
+            if (close === -1) this.fail();
+            out += String.fromCodePoint(parseInt(this.s.slice(this.i, close), 16));
+            this.i = close + 1;
+          } else {
+            out += String.fromCharCode(this.hex(4));
+          }
+          break;
+        case '\r': this.eat('\n'); break; // line continuation
+        case '\n': break;
+        case undefined: return this.fail();
+        default: out += esc;
+      }
+    }
+  }
+
+  private hex(length: number): number {
+    const digits = this.s.slice(this.i, this.i + length);
+    if (!new RegExp(`^[0-9a-fA-F]{${length}}$`).test(digits)) this.fail();
+    this.i += length;
+    return parseInt(digits, 16);
+  }
+
+  private number(): number | bigint {
+    let sign = 1;
+    if (this.eat('-')) sign = -1;
+    else this.eat('+');
+
+    const rest = this.s.slice(this.i);
+    if (rest.startsWith('Infinity')) {
+      this.i += 'Infinity'.length;
+      return sign * Infinity;
+    }
+    if (rest.startsWith('NaN')) {
+      this.i += 'NaN'.length;
+      return NaN;
+    }
+
+    const big = rest.match(/^(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|\d[\d_]*)n/);
+    if (big) {
+      this.i += big[0].length;
+      const n = BigInt(big[0].slice(0, -1).replace(/_/g, ''));
+      return sign < 0 ? -n : n;
+    }
+
+    const match = rest.match(/^(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?)/);
+    if (!match) return this.fail();
+    this.i += match[0].length;
+    const n = Number(match[0].replace(/_/g, ''));
+    if (Number.isNaN(n)) this.fail();
+    return sign * n;
+  }
+
+  private identifier(): string {
+    const start = this.i;
+    if (!IDENT_START.test(this.s[this.i] ?? '')) this.fail();
+    while (this.i < this.s.length && IDENT_PART.test(this.s[this.i])) this.i++;
+    return this.s.slice(start, this.i);
+  }
+
+  private space(): void {
+    for (;;) {
+      while (this.i < this.s.length && /\s/.test(this.s[this.i])) this.i++;
+      if (this.s.startsWith('//', this.i)) {
+        const nl = this.s.indexOf('\n', this.i);
+        this.i = nl === -1 ? this.s.length : nl + 1;
+      } else if (this.s.startsWith('/*', this.i)) {
+        const close = this.s.indexOf('*/', this.i + 2);
+        if (close === -1) this.fail();
+        this.i = close + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private eat(ch: string): boolean {
+    if (this.s[this.i] !== ch) return false;
+    this.i++;
+    return true;
+  }
+
+  private fail(): never {
+    throw new SyntaxError(`Unexpected input at ${this.i}`);
+  }
+}
@@ -1,69 +1,520 @@
+import type { FunctionHead, LocateOptions, PropHead, PropLocator, TargetKind } from '../types.js';
+import { findMatchingBracket, scanTypeAliasEnd, skipSpace } from './dry-run-extract.js';
+
+
+type DeclarationBody = { bodyStart: number; bodyEnd: number };
+
 /**
  * Finds the character range of an interface body in TypeScript declaration text.
- * Handles nested braces and export modifiers.
- * 
- * Limitation: This simple brace scan does not skip braces inside strings or comments; declaration
- * files rarely contain such cases and are usually safe.
+ * Handles nested braces and export modifiers. When no interface matches, falls back to
+ * the first object literal of a `type` alias with the same name (see {@link findDeclarationBodies}).
+ * For merged interfaces, only the first declaration's body is returned.
  * 
  * @param text - TypeScript declaration file content
- * @param interfaceName - Name of the interface to find
+ * @param interfaceName - Name of the interface to find (may be qualified, e.g. `Ns.Foo`)
  * @returns Object with bodyStart and bodyEnd character positions, or undefined if not found
  * @example
  * findInterfaceBody("interface Foo { x: number; }", "Foo")
  * // Returns: { bodyStart: 15, bodyEnd: 27 }
  */
-export function findInterfaceBody(text: string, interfaceName: string): { bodyStart: number; bodyEnd: number } | undefined {
-  // Support "export interface X" or "interface X"
-  const re = new RegExp(`\\b(?:export\\s+)?interface\\s+${escapeRe(interfaceName)}\\s*{`, 'm');
-  const match = re.exec(text);
-  if (!match) return undefined;
-
-  // brace match from the "{" we found
-  const openIdx = match.index + match[0].lastIndexOf('{');
-  let depth = 0;
-  for (let i = openIdx; i < text.length; i++) {
-    const char = text[i];
-    if (char === '{') depth++;
-    else if (char === '}') {
-      depth--;
-      if (depth === 0) {
-        return { bodyStart: openIdx + 1, bodyEnd: i };
-      }
+export function findInterfaceBody(text: string, interfaceName: string): DeclarationBody | undefined {
+  return findDeclarationBodies(text, interfaceName)[0];
+}
+
+/**
+ * Finds every object-literal body that declares members for a named interface or type alias.
+ * - `interface X { ... }` yields its body; declaration-merged interfaces (several `interface X`
+ *   blocks in the same scope) yield one body per declaration, in source order.
+ * - `type X = { ... }` yields the literal itself.
+ * - `type X = Base & { ... } & { ... }` yields each top-level literal, in source order.
+ *   Literals nested inside generic arguments (e.g. `Partial<{ ... }>`) are not members of `X`
+ *   and are skipped.
+ * 
+ * Qualified names select declarations inside `namespace`/`module` blocks: `Foo.Bar` looks in
+ * `namespace Foo { ... }` (also `namespace Foo.X` forms, and every re-opened `Foo`), and
+ * `"x".Options` looks in `declare module "x" { ... }`. An unqualified name matches declarations
+ * outside any namespace first and, failing that, the first match at any depth.
+ * 
+ * With `kind: 'class'`, the body of `class X { ... }` (also `abstract`/`declare` classes) is
+ * returned instead.
+ * 
+ * @param text - TypeScript declaration file content
+ * @param typeName - Name of the interface or type alias to find
+ * @param kind - Which declaration kind to look for (default: `'interface'`, which includes type aliases)
+ * @returns Body ranges (exclusive of the braces), or an empty array if not found
+ * @example
+ * findDeclarationBodies("type Foo = Base & { x: number; };", "Foo")
+ * // Returns: [{ bodyStart: 19, bodyEnd: 31 }]
+ */
+export function findDeclarationBodies(
+  text: string,
+  typeName: string,
+  kind: TargetKind = 'interface',
+): DeclarationBody[] {
+  const segments = splitQualifiedName(typeName);
+  const name = segments.pop();
+  if (!name) return [];
+
+  const scopes = findNamespaceScopes(text, { bodyStart: 0, bodyEnd: text.length }, segments);
+  const found = scopes.flatMap((scope) => findScopeDeclarationBodies(text, scope, name, kind, true));
+  if (found.length || segments.length) return found;
+
+  // Legacy behavior for unqualified names: first declaration anywhere (e.g. inside `declare module`)
+  return findScopeDeclarationBodies(text, { bodyStart: 0, bodyEnd: text.length }, name, kind, false);
+}
+
+/**
+ * Split a possibly-qualified declaration name into segments.
+ * Module names keep their quotes, normalized to double quotes: `'x'.Options` → `['"x"', 'Options']`.
+ */
+export function splitQualifiedName(typeName: string): string[] {
+  const out: string[] = [];
+  const re = /"([^"]*)"|'([^']*)'|([^.'"]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(typeName))) {
+    if (match[3] !== undefined) out.push(match[3].trim());
+    else out.push(`"${match[1] ?? match[2]}"`);
+  }
+  return out.filter(Boolean);
+}
+
+/**
+ * Interfaces (all merged declarations) or else the first type alias named `name` within `scope`.
+ * For `kind: 'class'`, the first class declaration instead.
+ */
+function findScopeDeclarationBodies(
+  text: string,
+  scope: DeclarationBody,
+  name: string,
+  kind: TargetKind,
+  ownLevelOnly: boolean,
+): DeclarationBody[] {
+  const nested = ownLevelOnly ? listModuleBlocks(text, scope) : [];
+  const inNested = (index: number) => nested.some((b) => index > b.bodyStart && index < b.bodyEnd);
+  const segment = text.slice(scope.bodyStart, scope.bodyEnd);
+
+  // Support "export interface X", "declare interface X", generics and "extends" clauses
+  // (classes: "export declare abstract class X<T> extends Base implements Y {")
+  const ifaceRe = new RegExp(
+    kind === 'class'
+      ? `\\bclass\\s+${escapeRe(name)}(?:\\s*<[^{}]*?>)?(?:\\s+(?:extends|implements)\\s+[^{]+)?\\s*{`
+      : `\\binterface\\s+${escapeRe(name)}(?:\\s*<[^{}]*?>)?(?:\\s+extends\\s+[^{]+)?\\s*{`,
+    'g',
+  );
+  const bodies: DeclarationBody[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = ifaceRe.exec(segment))) {
+    const index = scope.bodyStart + match.index;
+    if (inNested(index)) continue;
+    // brace match from the "{" we found (strings and comments are skipped)
+    const openIdx = index + match[0].length - 1;
+    const close = findMatchingBracket(text, openIdx, '{', '}');
+    if (close === -1) continue;
+    bodies.push({ bodyStart: openIdx + 1, bodyEnd: close });
+    if (!ownLevelOnly || kind === 'class') return bodies;
+  }
+  if (bodies.length || kind === 'class') return bodies;
+
+  // Support "export type X =", "declare type X =" and generic heads "type X<T> ="
+  const typeRe = new RegExp(
+    `\\b(?:export\\s+)?(?:declare\\s+)?type\\s+${escapeRe(name)}(?:\\s*<[^>{}]*>)?\\s*=`,
+    'g',
+  );
+  while ((match = typeRe.exec(segment))) {
+    const index = scope.bodyStart + match.index;
+    if (inNested(index)) continue;
+    const start = skipSpace(text, index + match[0].length);
+    const semi = scanTypeAliasEnd(text, start);
+    return listTypeLiteralBodies(text, start, semi === -1 ? scope.bodyEnd : semi);
+  }
+  return [];
+}
+
+/**
+ * Resolve the bodies of the namespace/module blocks named by `segments`, starting in `scope`.
+ * Re-opened namespaces yield one scope each; `namespace A.B { }` matches the segments `A`, `B`.
+ */
+function findNamespaceScopes(text: string, scope: DeclarationBody, segments: string[]): DeclarationBody[] {
+  if (!segments.length) return [scope];
+  const out: DeclarationBody[] = [];
+  for (const block of listModuleBlocks(text, scope)) {
+    const names = block.name;
+    if (names.length > segments.length) continue;
+    if (!names.every((n, i) => n === segments[i])) continue;
+    out.push(...findNamespaceScopes(text, block, segments.slice(names.length)));
+  }
+  return out;
+}
+
+/** Direct child `namespace X {}` / `module "x" {}` / `declare global {}` blocks of `scope`. */
+function listModuleBlocks(text: string, scope: DeclarationBody): Array<DeclarationBody & { name: string[] }> {
+  const re =
+    /(?:^|[\s;{}])(?:export\s+)?(?:declare\s+)?(?:(?:namespace|module)\s+("[^"]*"|'[^']*'|[A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)*)|(global))\s*{/g;
+  re.lastIndex = scope.bodyStart;
+  const out: Array<DeclarationBody & { name: string[] }> = [];
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) && match.index < scope.bodyEnd) {
+    const openIdx = match.index + match[0].length - 1;
+    const close = findMatchingBracket(text, openIdx, '{', '}');
+    if (close === -1 || close > scope.bodyEnd) break;
+    out.push({ bodyStart: openIdx + 1, bodyEnd: close, name: splitQualifiedName(match[1] ?? match[2]) });
+    re.lastIndex = close + 1;
+  }
+  return out;
+}
+
+/**
+ * Enumerate property heads within an interface body (simple .d.ts shapes).
+ * For type aliases, members of every top-level object literal are listed.
+ * For classes (`kind: 'class'`), property declarations are listed (methods, accessors and the
+ * constructor are not), followed by the members of the constructor parameter named
+ * `constructorParam` when given (its inline object type or a referenced interface).
+ */
+export function listInterfaceProps(
+  text: string,
+  interfaceName: string,
+  options: LocateOptions = {},
+): PropHead[] {
+  const out: PropHead[] = [];
+  for (const body of findDeclarationBodies(text, interfaceName, options.kind)) {
+    out.push(...listBodyProps(text, body));
+    if (options.kind === 'class' && options.constructorParam) {
+      out.push(...listConstructorParamProps(text, body, options.constructorParam));
     }
   }
+  return out;
+}
+
+/**
+ * Enumerate the members of a property's own type, for descending into nested defaults.
+ * Two shapes are recognized:
+ * - an inline object literal: `retry?: { backoffMs?: number; }`
+ * - a reference to an interface/type alias declared in the same text: `retry?: RetryOptions;`
+ *   (optionally followed by `| undefined` / `| null`).
+ * Anything else (generics, arrays, unions of literals, ...) yields an empty array.
+ * 
+ * @param text - TypeScript declaration file content
+ * @param prop - A property head previously returned by {@link listInterfaceProps}
+ * @returns Property heads of the nested members (absolute offsets into `text`)
+ */
+export function listNestedProps(
+  text: string,
+  prop: { headStart: number }
+): PropHead[] {
+  const headRe = new RegExp(`${MODIFIERS_RE}(?:"[^"]+"|'[^']+'|[A-Za-z_$][\\w$]*)[?!]?\\s*:`, 'y');
+  headRe.lastIndex = prop.headStart;
+  const head = headRe.exec(text);
+  if (!head) return [];
+
+  return listTypeMembers(text, skipSpace(text, headRe.lastIndex));
+}
+
+/** Members of the type starting at `typeStart`: an inline literal or a same-file reference. */
+function listTypeMembers(text: string, typeStart: number): PropHead[] {
+  if (text[typeStart] === '{') {
+    const close = findMatchingBracket(text, typeStart, '{', '}');
+    if (close === -1) return [];
+    return listBodyProps(text, { bodyStart: typeStart + 1, bodyEnd: close });
+  }
+
+  const refRe = /([A-Za-z_$][\w$]*)(?:\s*\|\s*(?:undefined|null))*\s*[;,)]/y;
+  refRe.lastIndex = typeStart;
+  const ref = refRe.exec(text);
+  if (!ref) return [];
+  return listInterfaceProps(text, ref[1]);
+}
+
+/**
+ * Finds a function declaration (`export declare function name(...)`, first overload) and lists
+ * the names its `@param` defaults can target.
+ * - Without `param`, the function's own parameter names are listed (destructured ones are skipped).
+ * - With `param`, the members of that parameter's type are listed: an inline object literal or
+ *   an interface/type alias declared in the same text (`opts?: ClientOptions`).
+ * Qualified names resolve into namespaces as for {@link findDeclarationBodies}.
+ * 
+ * @param text - TypeScript declaration file content
+ * @param functionName - Name of the function to find (may be qualified, e.g. `Ns.create`)
+ * @param options.param - Name of the options parameter whose members are listed
+ * @returns The function head (doc is re-detected above `headStart`), or undefined if not found
+ * @example
+ * findFunction("export declare function f(opts?: { a?: number }): void;", "f", { param: "opts" })
+ * // Returns: { name: "f", headStart: 0, indent: "", params: ["a"] }
+ */
+export function findFunction(
+  text: string,
+  functionName: string,
+  options: { param?: string } = {},
+): FunctionHead | undefined {
+  const segments = splitQualifiedName(functionName);
+  const name = segments.pop();
+  if (!name) return undefined;
+
+  const root = { bodyStart: 0, bodyEnd: text.length };
+  const found =
+    findNamespaceScopes(text, root, segments)
+      .map((scope) => findScopeFunction(text, scope, name, true))
+      .find(Boolean) ?? (segments.length ? undefined : findScopeFunction(text, root, name, false));
+  if (!found) return undefined;
+
+  const close = findMatchingBracket(text, found.open, '(', ')');
+  if (close === -1) return undefined;
+  const parameters = splitParameters(text, found.open + 1, close);
+
+  let params: string[];
+  if (options.param) {
+    const selected = parameters.find((p) => p.name === options.param);
+    params = selected?.typeStart != null ? listTypeMembers(text, selected.typeStart).map((p) => p.name) : [];
+  } else {
+    params = parameters.flatMap((p) => (p.name ? [p.name] : []));
+  }
+  return { name, headStart: found.headStart, indent: found.indent, params };
+}
+
+/** The first `function name(` declared in `scope` (own level only unless `ownLevelOnly` is false). */
+function findScopeFunction(
+  text: string,
+  scope: DeclarationBody,
+  name: string,
+  ownLevelOnly: boolean,
+): { headStart: number; indent: string; open: number } | undefined {
+  const nested = ownLevelOnly ? listModuleBlocks(text, scope) : [];
+  const segment = text.slice(scope.bodyStart, scope.bodyEnd);
+  const fnRe = new RegExp(
+    `^([ \\t]*)(?:export\\s+)?(?:default\\s+)?(?:declare\\s+)?(?:async\\s+)?function\\s*\\*?\\s*${escapeRe(name)}(?:\\s*<[^(]*?>)?\\s*\\(`,
+    'gm',
+  );
+  let match: RegExpExecArray | null;
+  while ((match = fnRe.exec(segment))) {
+    const headStart = scope.bodyStart + match.index + match[1].length;
+    if (nested.some((b) => headStart > b.bodyStart && headStart < b.bodyEnd)) continue;
+    return { headStart, indent: match[1], open: scope.bodyStart + match.index + match[0].length - 1 };
+  }
   return undefined;
 }
 
-/** Enumerate property heads within an interface body (simple .d.ts shapes). */
-export function listInterfaceProps(
+/**
+ * Split a parameter list (`start`/`end` exclude the parentheses) at top-level commas.
+ * Each parameter reports its name (unless destructured) and where its type annotation starts.
+ */
+function splitParameters(text: string, start: number, end: number): Array<{ name?: string; typeStart?: number }> {
+  const out: Array<{ name?: string; typeStart?: number }> = [];
+  const push = (from: number, to: number) => {
+    const headRe = new RegExp(`\\s*${MODIFIERS_RE}(?:\\.\\.\\.)?([A-Za-z_$][\\w$]*)?\\s*\\??\\s*(:)?`, 'y');
+    headRe.lastIndex = from;
+    const head = headRe.exec(text);
+    if (!head || !text.slice(from, to).trim() || head[1] === 'this') return;
+    out.push({
+      name: head[1],
+      typeStart: head[2] ? skipSpace(text, headRe.lastIndex) : undefined,
+    });
+  };
+
+  let depth = 0;
+  let from = start;
+  for (let i = start; i < end; i++) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      const q = ch;
+      i++;
+      while (i < end && text[i] !== q) i += text[i] === '\\' ? 2 : 1;
+    } else if (ch === '(' || ch === '{' || ch === '[' || ch === '<') {
+      depth++;
+    } else if (ch === ')' || ch === '}' || ch === ']' || (ch === '>' && text[i - 1] !== '=')) {
+      depth = Math.max(0, depth - 1);
+    } else if (ch === ',' && depth === 0) {
+      push(from, i);
+      from = i + 1;
+    }
+  }
+  push(from, end);
+  return out;
+}
+
+/**
+ * Finds where a member is declared, for reporting positions: the head offset of a (dotted)
+ * property path as listed by `locator` (`retry.backoffMs` descends via `listNestedProps`, taking
+ * the first declaration at each step). For `kind: 'function'` the function's own head is
+ * returned when `memberPath` is one of its documentable names.
+ * 
+ * @returns Offset of the head in `text`, or undefined when the member is not declared
+ * @example
+ * findMemberHead(regexLocator, "interface A {\n  x?: { y?: number };\n}", "A", "x")
+ * // Returns: 16
+ */
+export function findMemberHead(
+  locator: PropLocator,
   text: string,
-  interfaceName: string
-): Array<{ name: string; headStart: number; indent: string }> {
-  const body = findInterfaceBody(text, interfaceName);
-  if (!body) return [];
+  typeName: string,
+  memberPath: string,
+  options: LocateOptions & { param?: string } = {},
+): number | undefined {
+  if (options.kind === 'function') {
+    const fn = locator.findFunction(text, typeName, { param: options.param });
+    return fn?.params.includes(memberPath) ? fn.headStart : undefined;
+  }
+  const [first, ...rest] = memberPath.split('.');
+  let head = locator.listProps(text, typeName, options).find((p) => p.name === first);
+  for (const key of rest) {
+    if (!head) break;
+    head = locator.listNestedProps(text, head).find((p) => p.name === key);
+  }
+  return head?.headStart;
+}
 
+/** The default, dependency-free locator (line-anchored scan of simple `.d.ts` shapes). */
+export const regexLocator: PropLocator = {
+  listProps: listInterfaceProps,
+  listNestedProps,
+  findFunction,
+};
+
+/** Members of the constructor parameter `paramName` declared in a class body. */
+function listConstructorParamProps(text: string, body: DeclarationBody, paramName: string): PropHead[] {
+  const ctorRe = /\bconstructor\s*\(/g;
+  ctorRe.lastIndex = body.bodyStart;
+  const ctor = ctorRe.exec(text);
+  if (!ctor || ctor.index >= body.bodyEnd) return [];
+
+  const open = ctor.index + ctor[0].length - 1;
+  const close = findMatchingBracket(text, open, '(', ')');
+  if (close === -1) return [];
+
+  const paramRe = new RegExp(`[(,]\\s*${MODIFIERS_RE}${escapeRe(paramName)}\\??\\s*:`, 'g');
+  paramRe.lastIndex = open;
+  const param = paramRe.exec(text);
+  if (!param || param.index >= close) return [];
+  return listTypeMembers(text, skipSpace(text, param.index + param[0].length));
+}
+
+function listBodyProps(
+  text: string,
+  body: DeclarationBody,
+): PropHead[] {
   const segment = text.slice(body.bodyStart, body.bodyEnd);
   const offset = body.bodyStart;
+  const depthAt = createDepthScanner(segment);
 
   // Start-of-line anchored (multiline) for CRLF/LF safety.
-  // readonly?  "foo" | 'foo' | foo  with optional ?, colon, then until semicolon.
-  const propRe =
-    /^([ \t]*)(?:readonly\s+)?(?:"([^"]+)"|'([^']+)'|([A-Za-z_$][\w$]*))\??\s*:\s*[^;]*;/gm;
+  // modifiers*  "foo" | 'foo' | foo  with optional ?/!, then a colon and a type until semicolon
+  // (or, for class fields emitted without a type such as `private cache;`, the semicolon itself).
+  const propRe = new RegExp(
+    `^([ \\t]*)(${MODIFIERS_RE}(?:"([^"]+)"|'([^']+)'|([A-Za-z_$][\\w$]*))([?!]?)\\s*(?::|(?=;)))\\s*[^;]*;`,
+    'gm',
+  );
 
-  const out: Array<{ name: string; headStart: number; indent: string }> = [];
+  const out: PropHead[] = [];
   let match: RegExpExecArray | null;
 
   while ((match = propRe.exec(segment))) {
     const indent = match[1] || '';
-    const name = match[2] || match[3] || match[4];
+    const name = match[3] || match[4] || match[5];
     if (!name) continue;
+    // Lines inside method signatures (`configure(opts: {\n  a: number;\n }): void;`) are not members
+    if (depthAt(match.index) !== 0) continue;
     // match.index is the start-of-line thanks to ^ with /m
     const headStart = offset + match.index + indent.length;
-    out.push({ name, headStart, indent });
+    out.push({ name, headStart, indent, optional: match[6] === '?' });
+
+    // Skip over the whole member type so members of inline object types
+    // (`retry?: { a?: number; b?: number; }`) are not mistaken for siblings.
+    const typeStart = match.index + indent.length + match[2].length;
+    const memberEnd = scanTypeAliasEnd(segment, typeStart);
+    if (memberEnd !== -1) propRe.lastIndex = Math.max(propRe.lastIndex, memberEnd + 1);
+  }
+  return out;
+}
+
+/**
+ * Collect the object literals that appear at the top level of a type alias right-hand side
+ * (`[start, end)`), skipping strings, comments and anything nested in `<...>` or `[...]`.
+ */
+function listTypeLiteralBodies(text: string, start: number, end: number): DeclarationBody[] {
+  const out: DeclarationBody[] = [];
+  let bAngle = 0, bSquare = 0;
+
+  for (let i = start; i < end; i++) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    // strings
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let j = i + 1;
+      while (j < end && !(text[j] === ch && text[j - 1] !== '\\')) j++;
+      i = j;
+      continue;
+    }
+    // comments
+    if (ch === '/' && next === '/') {
+      const nl = text.indexOf('\n', i);
+      i = nl === -1 ? end : nl;
+      continue;
+    }
+    if (ch === '/' && next === '*') {
+      const close = text.indexOf('*/', i + 2);
+      i = close === -1 ? end : close + 1;
+      continue;
+    }
+
+    if (ch === '<') bAngle++;
+    else if (ch === '>' && text[i - 1] !== '=') bAngle = Math.max(0, bAngle - 1);
+    else if (ch === '[') bSquare++;
+    else if (ch === ']') bSquare = Math.max(0, bSquare - 1);
+    else if (ch === '{') {
+      const close = findMatchingBracket(text, i, '{', '}');
+      if (close === -1 || close >= end) break;
+      if (bAngle === 0 && bSquare === 0) out.push({ bodyStart: i + 1, bodyEnd: close });
+      i = close;
+    }
   }
   return out;
 }
 
+/** Member modifiers that may precede a name in interface/class bodies. */
+const MODIFIERS_RE =
+  '(?:(?:public|private|protected|static|readonly|declare|override|abstract|accessor)\\s+)*';
+
+/**
+ * Returns a function giving the `()`/`{}`/`[]` nesting depth at an index of `source`,
+ * ignoring strings and comments. Indices must be queried in increasing order.
+ */
+function createDepthScanner(source: string): (index: number) => number {
+  let i = 0;
+  let depth = 0;
+  let inS: '"' | "'" | '`' | null = null;
+  let inLine = false;
+  let inBlock = false;
+  let blockStart = -1; // index of the `/` opening the current block comment
+
+  return (index: number) => {
+    for (; i < index; i++) {
+      const ch = source[i];
+      const prev = i > 0 ? source[i - 1] : '';
+      if (inLine) {
+        if (ch === '\n') inLine = false;
+        continue;
+      }
+      if (inBlock) {
+        // the closing `*` must come after the opening one, so `/*/` does not close itself
+        if (prev === '*' && ch === '/' && i - 1 > blockStart + 1) inBlock = false;
+        continue;
+      }
+      if (inS) {
+        if (ch === inS && prev !== '\\') inS = null;
+        continue;
+      }
+      if (ch === '/' && source[i + 1] === '/') inLine = true;
+      else if (ch === '/' && source[i + 1] === '*') {
+        inBlock = true;
+        blockStart = i;
+      }
+      else if (ch === '"' || ch === "'" || ch === '`') inS = ch;
+      else if (ch === '(' || ch === '{' || ch === '[') depth++;
+      else if (ch === ')' || ch === '}' || ch === ']') depth = Math.max(0, depth - 1);
+    }
+    return depth;
+  };
+}
+
 function escapeRe(segment: string) {
   return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -0,0 +1,104 @@
+/**
+ * Render a runtime value as a TypeScript expression. JSON-compatible values render exactly
+ * like `JSON.stringify` (so existing docs stay stable); other values get valid TS forms:
+ *
+ * | value                      | rendered                          |
+ * | -------------------------- | --------------------------------- |
+ * | `undefined`                | `undefined`                       |
+ * | `NaN`, `±Infinity`, `-0`   | `Number.NaN`, `Number.POSITIVE_INFINITY`, `Number.NEGATIVE_INFINITY`, `-0` |
+ * | `10n`                      | `10n`                             |
+ * | `new Date(...)`            | `new Date("2024-01-01T00:00:00.000Z")` |
+ * | `/re/g`                    | `/re/g`                           |
+ * | `new Map(...)`/`new Set(...)` | `new Map([["a",1]])` / `new Set([1,2])` |
+ *
+ * Functions and symbols are skipped inside objects and become `null` inside arrays (as in JSON).
+ * Objects with a `toJSON` method (other than `Date`) are rendered through it.
+ *
+ * @param value - Value to render
+ * @param space - Indent width for multi-line output (0 = compact, like `JSON.stringify(v)`)
+ * @param replace - Consulted first for every value (nested ones too); a string return is used verbatim
+ * @returns The expression text
+ * @throws {TypeError} For circular structures and top-level functions/symbols
+ * @example
+ * serializeValue({ when: new Date(0), ids: new Set([1n]) })
+ * // → '{"when":new Date("1970-01-01T00:00:00.000Z"),"ids":new Set([1n])}'
+ */
+export function serializeValue(
+  value: unknown,
+  space = 0,
+  replace?: (value: unknown) => string | undefined,
+): string {
+  const rendered = render(value, '', space, new Set(), replace);
+  if (rendered === undefined) throw new TypeError(`Cannot serialize ${typeof value}`);
+  return rendered;
+}
+
+function render(
+  value: unknown,
+  indent: string,
+  space: number,
+  seen: Set<object>,
+  replace: ((value: unknown) => string | undefined) | undefined,
+): string | undefined {
+  const custom = replace?.(value);
+  if (typeof custom === 'string') return custom;
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      if (Number.isNaN(value)) return 'Number.NaN';
+      if (value === Infinity) return 'Number.POSITIVE_INFINITY';
+      if (value === -Infinity) return 'Number.NEGATIVE_INFINITY';
+      return Object.is(value, -0) ? '-0' : String(value);
+    case 'bigint':
+      return `${value}n`;
+    case 'boolean':
+      return String(value);
+    case 'undefined':
+      return 'undefined';
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+  if (value === null) return 'null';
+
+  const obj = value as object;
+  if (obj instanceof Date) {
+    return Number.isNaN(obj.getTime()) ? 'new Date(NaN)' : `new Date(${JSON.stringify(obj.toISOString())})`;
+  }
+  if (obj instanceof RegExp) return String(obj);
+  if (typeof (obj as { toJSON?: unknown }).toJSON === 'function') {
+    return render((obj as { toJSON(): unknown }).toJSON(), indent, space, seen, replace);
+  }
+
+  if (seen.has(obj)) throw new TypeError('Cannot serialize a circular structure');
+  seen.add(obj);
+  try {
+    const inner = indent + ' '.repeat(space);
+    const list = (items: string[], open: string, close: string) => {
+      if (!items.length) return open + close;
+      if (!space) return open + items.join(',') + close;
+      return `${open}\n${inner}${items.join(`,\n${inner}`)}\n${indent}${close}`;
+    };
+
+    if (obj instanceof Map) {
+      const entries = [...obj].map(([k, v]) => [k, v]);
+      return `new Map(${entries.length ? render(entries, indent, space, seen, replace) : ''})`;
+    }
+    if (obj instanceof Set) {
+      return `new Set(${obj.size ? render([...obj], indent, space, seen, replace) : ''})`;
+    }
+    if (Array.isArray(obj)) {
+      return list(obj.map((v) => render(v, inner, space, seen, replace) ?? 'null'), '[', ']');
+    }
+
+    const items: string[] = [];
+    for (const key of Object.keys(obj)) {
+      const rendered = render((obj as Record<string, unknown>)[key], inner, space, seen, replace);
+      if (rendered !== undefined) items.push(`${JSON.stringify(key)}:${space ? ' ' : ''}${rendered}`);
+    }
+    return list(items, '{', '}');
+  } finally {
+    seen.delete(obj);
+  }
+}
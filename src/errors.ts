@@ -1,35 +1,49 @@
 import { EXIT_CODES, LOG_PREFIX } from "./constants.js";
+import type { AssertResult, InjectResult } from "./types.js";
 
 export type ErrorCode =
   | 'CLI_USAGE'
   | 'CONFIG_NOT_FOUND'
+  | 'CONFIG_EXISTS'
   | 'INVALID_CONFIG'
   | 'INTERFACE_NOT_FOUND'
   | 'DEFAULTS_SYMBOL_NOT_FOUND'
   | 'DTS_NOT_FOUND'
+  | 'SOURCE_NOT_FOUND'
   | 'BUILT_JS_IMPORT_FAILED'
   | 'TSX_NOT_INSTALLED'
+  | 'TYPESCRIPT_NOT_INSTALLED'
   | 'COULD_NOT_LOAD_TS'
-  | 'ASSERT_FAILED';
+  | 'ASSERT_FAILED'
+  | 'CHECK_FAILED';
 
 const DEFAULT_EXIT_BY_CODE: Record<ErrorCode, number> = {
   CLI_USAGE: EXIT_CODES.USAGE_ERROR,
   CONFIG_NOT_FOUND: EXIT_CODES.CONFIG_NOT_FOUND,
+  CONFIG_EXISTS: EXIT_CODES.USAGE_ERROR,
   INVALID_CONFIG: EXIT_CODES.INVALID_CONFIG,
   ASSERT_FAILED: EXIT_CODES.VALIDATION_ERROR,
+  CHECK_FAILED: EXIT_CODES.VALIDATION_ERROR,
 
   // Treat all “not found / can’t load / tsx missing / import failed” as LOADING_ERROR
   INTERFACE_NOT_FOUND: EXIT_CODES.LOADING_ERROR,
   DEFAULTS_SYMBOL_NOT_FOUND: EXIT_CODES.LOADING_ERROR,
   DTS_NOT_FOUND: EXIT_CODES.LOADING_ERROR,
+  SOURCE_NOT_FOUND: EXIT_CODES.LOADING_ERROR,
   BUILT_JS_IMPORT_FAILED: EXIT_CODES.LOADING_ERROR,
   TSX_NOT_INSTALLED: EXIT_CODES.LOADING_ERROR,
+  TYPESCRIPT_NOT_INSTALLED: EXIT_CODES.LOADING_ERROR,
   COULD_NOT_LOAD_TS: EXIT_CODES.LOADING_ERROR,
 };
 
 export interface ErrorDetails {
   hint?: string;
   context?: Record<string, unknown>;
+  /**
+   * `ASSERT_FAILED` / `CHECK_FAILED`: the full assert / inject result (every target, including
+   * those that passed).
+   */
+  result?: AssertResult | InjectResult;
 }
 
 export class SddError extends Error {
@@ -52,6 +66,11 @@ export class SddError extends Error {
   }
 }
 
+/** `message` without the leading log prefix {@link SddError} adds, for output that has its own framing. */
+export function stripLogPrefix(message: string): string {
+  return message.startsWith(`${LOG_PREFIX} `) ? message.slice(LOG_PREFIX.length + 1) : message;
+}
+
 export function errMsg(message: string, details?: ErrorDetails): string {
   const lines = [message];
   if (details?.hint) lines.push(details.hint);
@@ -65,7 +84,7 @@ export function usageError(message: string) {
 
 export function configNotFound(path: string) {
   return new SddError('CONFIG_NOT_FOUND',
-    errMsg(`Config file not found. Looked for docdefaults.config.(mjs|cjs|js|json) from ${path}`),
+    errMsg(`Config file not found. Looked for docdefaults.config.(mjs|cjs|js|json|ts) from ${path}`),
     { exitCode: 2 }
   );
 }
@@ -1,17 +1,37 @@
 
 // public functions
-export { assert, inject } from './api.js';
+export { assert, check, doctor, init, inject, list } from './api.js';
+export { SddError } from './errors.js';
+export type { ErrorCode, ErrorDetails } from './errors.js';
 
 // public enums/types/interfaces
 export { 
   TsMode,
   PreferredTag,
+  LocatorKind,
+  TargetKind,
+  SyncMode,
+  SerializeContext,
+  ValueSerializer,
+  SerializerHook,
+  CoveragePolicy,
+  CoverageConfig,
   TargetConfig,
   DocDefaultsConfig,
   InjectTargetResult,
   InjectResult,
   AssertTargetResult,
   AssertResult,
+  ModuleLoader,
+  ListTargetResult,
+  ListResult,
+  DoctorStatus,
+  DoctorCheck,
+  DoctorResult,
+  ConfigFormat,
+  InitOptions,
+  InitCandidate,
+  InitResult,
   Options,
   RunOptions, 
 } from './types.js';
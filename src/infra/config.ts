@@ -32,17 +32,37 @@ export async function loadConfig(file: string): Promise<DocDefaultsConfig> {
   return config;
 }
 
+/** Whether `targets` is a non-empty array whose items all set their own `defaults` (so the top-level one may be omitted). */
+export function everyTargetSetsDefaults(targets: unknown): boolean {
+  return Array.isArray(targets) && targets.length > 0 && targets.every((t) => t?.defaults);
+}
+
 function validateConfig(config: any, fromPath: string): asserts config is DocDefaultsConfig {
   if (!config || typeof config !== 'object') throw new Error(`Invalid config in ${fromPath}: not an object`);
-  if (typeof config.defaults !== 'string') throw new Error(`Invalid config in ${fromPath}: "defaults" must be a string`);
+  if (typeof config.defaults !== 'string' && (config.defaults != null || !everyTargetSetsDefaults(config.targets))) throw new Error(`Invalid config in ${fromPath}: "defaults" must be a string (unless every target sets its own)`);
   if (!Array.isArray(config.targets)) throw new Error(`Invalid config in ${fromPath}: "targets" must be an array`);
+  if (config.locator != null && config.locator !== 'regex' && config.locator !== 'ast') throw new Error(`Invalid config in ${fromPath}: "locator" must be "regex" or "ast"`);
+  if (config.inlineWidth != null && !(Number.isInteger(config.inlineWidth) && config.inlineWidth > 0)) throw new Error(`Invalid config in ${fromPath}: "inlineWidth" must be a positive integer`);
+  if (config.mode != null && !['dts', 'source', 'both'].includes(config.mode)) throw new Error(`Invalid config in ${fromPath}: "mode" must be "dts", "source" or "both"`);
+  if (config.prune != null && typeof config.prune !== 'boolean') throw new Error(`Invalid config in ${fromPath}: "prune" must be a boolean if provided`);
+  if (config.strict != null && typeof config.strict !== 'boolean') throw new Error(`Invalid config in ${fromPath}: "strict" must be a boolean if provided`);
+  if (config.serializers != null && !(Array.isArray(config.serializers) && config.serializers.every((fn: unknown) => typeof fn === 'function'))) throw new Error(`Invalid config in ${fromPath}: "serializers" must be an array of functions if provided`);
+  if (config.overrides != null && (typeof config.overrides !== 'object' || Array.isArray(config.overrides) || Object.values(config.overrides).some((v) => typeof v !== 'string' && v !== false))) throw new Error(`Invalid config in ${fromPath}: "overrides" must map "Interface.prop" keys to a string or false`);
+  if (config.coverage != null && typeof config.coverage !== 'boolean' && (typeof config.coverage !== 'object' || Array.isArray(config.coverage) || Object.entries(config.coverage).some(([key, policy]) => (key !== 'undocumented' && key !== 'stale') || !['off', 'warn', 'error'].includes(policy as string)))) throw new Error(`Invalid config in ${fromPath}: "coverage" must be a boolean or { undocumented?, stale? } with "off", "warn" or "error"`);
   for (const target of config.targets) {
     if (!target || typeof target !== 'object') throw new Error(`Invalid target in ${fromPath}: item is not an object`);
     if (target.name && typeof target.name !== 'string') throw new Error(`Invalid target in ${fromPath}: "name" must be a string`);
     if (typeof target.types !== 'string') throw new Error(`Invalid target "${target.name}": "types" must be a string`);
+    if (target.defaults != null && (typeof target.defaults !== 'string' || !target.defaults)) throw new Error(`Invalid target "${target.name}": "defaults" must be a non-empty string if provided`);
     if (target.dts && typeof target.dts !== 'string') throw new Error(`Invalid target "${target.name}": "dts" must be a string if provided`);
     if (typeof target.interface !== 'string') throw new Error(`Invalid target "${target.name}": "interface" must be a string`);
     if (typeof target.member !== 'string') throw new Error(`Invalid target "${target.name}": "member" must be a string`);
+    if (target.recursive != null && typeof target.recursive !== 'boolean') throw new Error(`Invalid target "${target.name}": "recursive" must be a boolean if provided`);
+    if (target.mode != null && !['dts', 'source', 'both'].includes(target.mode)) throw new Error(`Invalid target "${target.name}": "mode" must be "dts", "source" or "both"`);
+    if (target.serializers != null && !(Array.isArray(target.serializers) && target.serializers.every((fn: unknown) => typeof fn === 'function'))) throw new Error(`Invalid target "${target.name}": "serializers" must be an array of functions if provided`);
+    if (target.kind != null && target.kind !== 'interface' && target.kind !== 'class' && target.kind !== 'function') throw new Error(`Invalid target "${target.name}": "kind" must be "interface", "class" or "function"`);
+    if (target.constructorParam != null && (typeof target.constructorParam !== 'string' || target.kind !== 'class')) throw new Error(`Invalid target "${target.name}": "constructorParam" must be a string and requires kind "class"`);
+    if (target.param != null && (typeof target.param !== 'string' || target.kind !== 'function')) throw new Error(`Invalid target "${target.name}": "param" must be a string and requires kind "function"`);
   }
 }
 
@@ -52,13 +72,22 @@ export function resolveOptions(input?: RunOptions): Options {
   const envTag = process.env.SYNCDOCDEFAULTS_TAG as any;
   const envQuiet = process.env.SYNCDOCDEFAULTS_QUIET === '1' || process.env.SYNCDOCDEFAULTS_QUIET === 'true';
   const envDebug = process.env.SYNCDOCDEFAULTS_DEBUG_PATHS === '1' || process.env.SYNCDOCDEFAULTS_DEBUG_PATHS === 'true';
+  const envStrict = process.env.SYNCDOCDEFAULTS_STRICT === '1' || process.env.SYNCDOCDEFAULTS_STRICT === 'true';
+  const envPrune = process.env.SYNCDOCDEFAULTS_PRUNE === '1' || process.env.SYNCDOCDEFAULTS_PRUNE === 'true';
 
   return {
     repoRoot: input?.repoRoot ? resolve(input.repoRoot) : process.cwd(),
     dryRun: input?.dryRun ?? RUN_DEFAULTS.dryRun,
     quiet: input?.quiet ?? envQuiet ?? RUN_DEFAULTS.quiet,
+    silent: input?.silent ?? false,
     debugPaths: input?.debugPaths ?? envDebug ?? RUN_DEFAULTS.debugPaths,
     tsMode: input?.tsMode ?? envTs ?? RUN_DEFAULTS.tsMode,
     tag: input?.tag ?? envTag ?? RUN_DEFAULTS.tag,
+    // left undefined so the config's `strict`/`prune` can apply
+    strict: input?.strict ?? (envStrict || undefined),
+    prune: input?.prune ?? (envPrune || undefined),
+    mode: input?.mode,
+    targets: input?.targets,
+    color: input?.color,
   };
 }
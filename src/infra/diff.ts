@@ -0,0 +1,149 @@
+const COLORS = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  cyan: '\x1b[36m',
+} as const;
+
+type Edit = { op: ' ' | '-' | '+'; line: string };
+
+/**
+ * Render a unified diff between two versions of a file, in the form `git apply` accepts:
+ * a `diff --git` header, `---`/`+++` file headers and `@@` hunks with `context` lines around
+ * each change (`\ No newline at end of file` markers included).
+ *
+ * @param before - Original text
+ * @param after - Updated text
+ * @param filePath - Path written in the headers (repo-relative, `/`-separated)
+ * @param context - Unchanged lines shown around each change (default: 3)
+ * @returns The diff, or an empty string when the texts are equal
+ * @example
+ * createUnifiedDiff('a\nb\n', 'a\nc\n', 'types.d.ts')
+ * // → 'diff --git a/types.d.ts b/types.d.ts\n--- a/types.d.ts\n+++ b/types.d.ts\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n'
+ */
+export function createUnifiedDiff(before: string, after: string, filePath: string, context = 3): string {
+  if (before === after) return '';
+  const edits = diffLines(splitLines(before), splitLines(after));
+
+  const out = [`diff --git a/${filePath} b/${filePath}`, `--- a/${filePath}`, `+++ b/${filePath}`];
+  let i = 0;
+  // line numbers (0-based) of edits[i] in the old/new text
+  let oldLine = 0;
+  let newLine = 0;
+  while (i < edits.length) {
+    // next change
+    let start = i;
+    while (start < edits.length && edits[start].op === ' ') start++;
+    if (start === edits.length) break;
+
+    // hunk: from `context` lines before the change up to the last change followed by > 2*context unchanged lines
+    let end = start;
+    for (let k = start; k < edits.length; k++) {
+      if (edits[k].op !== ' ') end = k;
+      else if (k - end > 2 * context) break;
+    }
+    const from = Math.max(i, start - context);
+    const to = Math.min(edits.length, end + context + 1);
+
+    // advance the counters to `from`
+    for (let k = i; k < from; k++) { oldLine++; newLine++; }
+    const hunk = edits.slice(from, to);
+    const oldCount = hunk.filter((e) => e.op !== '+').length;
+    const newCount = hunk.filter((e) => e.op !== '-').length;
+    out.push(`@@ -${range(oldLine, oldCount)} +${range(newLine, newCount)} @@`);
+    for (const e of hunk) {
+      out.push(e.op + e.line.replace(/\r?\n$/, ''));
+      if (!e.line.endsWith('\n')) out.push('\\ No newline at end of file');
+    }
+    oldLine += oldCount;
+    newLine += newCount;
+    i = to;
+  }
+  return out.join('\n') + '\n';
+}
+
+/** Color a unified diff for terminals: headers bold, hunk ranges cyan, removals red, additions green. */
+export function colorizeDiff(diff: string): string {
+  return diff.split('\n').map((line) => {
+    if (/^(diff --git|--- |\+\+\+ )/.test(line)) return `${COLORS.bold}${line}${COLORS.reset}`;
+    if (line.startsWith('@@')) return `${COLORS.cyan}${line}${COLORS.reset}`;
+    if (line.startsWith('-')) return `${COLORS.red}${line}${COLORS.reset}`;
+    if (line.startsWith('+')) return `${COLORS.green}${line}${COLORS.reset}`;
+    return line;
+  }).join('\n');
+}
+
+/** `start,count` of a hunk side; an empty side is numbered after the line it follows. */
+function range(line: number, count: number): string {
+  if (count === 0) return `${line},0`;
+  return count === 1 ? `${line + 1}` : `${line + 1},${count}`;
+}
+
+/** Lines with their terminators kept, so a missing final newline shows up as a change. */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** Myers' O(ND) shortest edit script between two line lists (common prefix/suffix trimmed first). */
+function diffLines(a: string[], b: string[]): Edit[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const x0 = a.slice(prefix, a.length - suffix);
+  const y0 = b.slice(prefix, b.length - suffix);
+  const n = x0.length;
+  const m = y0.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && x0[x] === y0[y]) { x++; y++; }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // walk the trace backwards to recover the edits
+  const middle: Edit[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      y--;
+      middle.push({ op: ' ', line: x0[--x] });
+    }
+    if (x === prevX) middle.push({ op: '+', line: y0[--y] });
+    else middle.push({ op: '-', line: x0[--x] });
+  }
+  while (x > 0 && y > 0) {
+    y--;
+    middle.push({ op: ' ', line: x0[--x] });
+  }
+  middle.reverse();
+
+  return [
+    ...a.slice(0, prefix).map((line): Edit => ({ op: ' ', line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line): Edit => ({ op: ' ', line })),
+  ];
+}
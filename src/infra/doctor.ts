@@ -0,0 +1,55 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { STATIC_IMPORT_RES } from './watch.js';
+
+
+/**
+ * The module type Node gives `.js` files at `fileAbs`: the `type` of the nearest `package.json`
+ * (`commonjs` when unset or when there is none).
+ * @returns The type and the `package.json` it came from
+ */
+export function readPackageType(fileAbs: string): { type: 'module' | 'commonjs'; packageJson?: string } {
+  let dir = path.dirname(fileAbs);
+  while (true) {
+    const candidate = path.join(dir, 'package.json');
+    if (fs.existsSync(candidate)) {
+      try {
+        const type = JSON.parse(fs.readFileSync(candidate, 'utf8'))?.type;
+        return { type: type === 'module' ? 'module' : 'commonjs', packageJson: candidate };
+      } catch {
+        return { type: 'commonjs', packageJson: candidate };
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return { type: 'commonjs' };
+    dir = parent;
+  }
+}
+
+/**
+ * Guesses the module syntax of a JS file: `esm` for top-level `import`/`export` statements,
+ * `cjs` for `require()`/`module.exports`/`exports.x =`, `undefined` when neither shows up.
+ */
+export function detectModuleSyntax(text: string): 'esm' | 'cjs' | undefined {
+  if (/^[ \t]*(?:import\s*[\w{*'"]|export\s+[\w{*])/m.test(text)) return 'esm';
+  if (/\brequire\s*\(|\bmodule\.exports\b|\bexports\.[\w$]+\s*=/.test(text)) return 'cjs';
+  return undefined;
+}
+
+/**
+ * Relative specifiers of static imports that have no file extension. Node's ESM resolver does
+ * not add one, so `import './util'` fails where `import './util.js'` works.
+ *
+ * @example
+ * findExtensionlessImports("import { a } from './a';\nimport { b } from './b.js';")
+ * // Returns: ['./a']
+ */
+export function findExtensionlessImports(text: string): string[] {
+  const out = new Set<string>();
+  for (const re of STATIC_IMPORT_RES) {
+    for (const match of text.matchAll(re)) {
+      if (!/\.(?:[cm]?js|json|node)$/.test(match[1])) out.add(match[1]);
+    }
+  }
+  return [...out];
+}
@@ -1,6 +1,6 @@
 import { LOG_PREFIX } from "../constants.js";
 
-type Level = 'error' | 'warn' | 'info' | 'debug';
+type Level = 'silent' | 'error' | 'warn' | 'info' | 'debug';
 
 const COLORS = {
   reset: '\x1b[0m',
@@ -21,15 +21,15 @@ export class Logger {
   private useColors: boolean;
   private withTs: boolean;
 
-  constructor(quiet = false, debug = false, options?: { timestamp?: boolean; prefix?: string; colors?: boolean }) {
-    this.level = quiet ? 'error' : (debug ? 'debug' : 'info');
+  constructor(quiet = false, debug = false, options?: { timestamp?: boolean; prefix?: string; colors?: boolean; silent?: boolean }) {
+    this.level = options?.silent ? 'silent' : quiet ? 'error' : (debug ? 'debug' : 'info');
     this.prefix = options?.prefix ?? LOG_PREFIX;
     this.useColors = options?.colors ?? process.stdout.isTTY;
     this.withTs = !!options?.timestamp;
   }
 
   log(message: string, force = false) {
-    if (this.level === 'error' && !force) return;
+    if (this.level === 'silent' || (this.level === 'error' && !force)) return;
     const line = this.useColors
       ? fmt(this.prefix, message, this.withTs, '')
       : fmt(this.prefix, message, this.withTs);
@@ -37,7 +37,7 @@ export class Logger {
   }
 
   warn(message: string) {
-    if (this.level === 'error') return;
+    if (this.level === 'silent' || this.level === 'error') return;
     const text = `Warning: ${message}`;
     const line = this.useColors
       ? fmt(this.prefix, text, this.withTs, COLORS.yellow)
@@ -46,6 +46,7 @@ export class Logger {
   }
 
   error(message: string, err?: unknown) {
+    if (this.level === 'silent') return;
     const line = this.useColors
       ? fmt(this.prefix, message, this.withTs, COLORS.red)
       : fmt(this.prefix, message, this.withTs);
@@ -64,8 +65,8 @@ export class Logger {
   }
 }
 
-export function createLogger(options: { quiet?: boolean; debugPaths?: boolean; timestamp?: boolean }) {
-  return new Logger(!!options.quiet, !!options.debugPaths, { timestamp: options.timestamp });
+export function createLogger(options: { quiet?: boolean; debugPaths?: boolean; timestamp?: boolean; silent?: boolean }) {
+  return new Logger(!!options.quiet, !!options.debugPaths, { timestamp: options.timestamp, silent: options.silent });
 }
 
 export const defaultLogger = createLogger({ quiet: true, debugPaths: true });
@@ -0,0 +1,410 @@
+import path from 'node:path';
+import type { AssertResult, AssertTargetResult, DoctorResult, InjectResult, InjectTargetResult, ListResult } from '../types.js';
+import { EXIT_CODES } from '../constants.js';
+import { SddError, stripLogPrefix, type ErrorCode } from '../errors.js';
+
+
+/**
+ * How the CLI prints its outcome: human log lines, or one of the machine-readable forms
+ * (`github` = GitHub Actions workflow commands, `sarif` = a SARIF 2.1.0 log, `junit` = JUnit XML).
+ */
+export type OutputFormat = 'text' | 'json' | 'ndjson' | 'github' | 'sarif' | 'junit';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json', 'ndjson', 'github', 'sarif', 'junit'];
+
+/**
+ * The document printed by `--format json` (and, split into lines, by `--format ndjson`).
+ * Fields are only ever added; `version` is bumped if one changes meaning or is removed.
+ */
+export interface RunReport {
+  version: 1;
+  command: 'inject' | 'assert' | 'check';
+  ok: boolean;
+  exitCode: number;
+  projectLabel?: string;
+  /** (inject, check) Total number of updated members (pending ones, for `check`). */
+  updated?: number;
+  /** (inject with `--dry`, check) The unified diff of the pending changes. */
+  patch?: string;
+  /** One entry per target file, as returned by `inject()` / `assert()`. */
+  targets: Array<InjectTargetResult | AssertTargetResult>;
+  /** Set when the run failed; `code` is null for unexpected (non-`SddError`) failures. */
+  error?: { code: ErrorCode | null; message: string };
+}
+
+/** Exit code for a thrown error: its own `exitCode`, else the general error code. */
+export function exitCodeOf(err: unknown): number {
+  const e = err as { exitCode?: unknown; code?: unknown } | undefined;
+  return typeof e?.exitCode === 'number' ? e.exitCode
+    : typeof e?.code === 'number' ? e.code
+    : EXIT_CODES.GENERAL_ERROR;
+}
+
+/**
+ * Build the report for a finished run. Pass the resolved `result`, or the thrown `error`
+ * (an `ASSERT_FAILED` error still contributes its per-target results).
+ */
+export function buildRunReport(
+  command: RunReport['command'],
+  outcome: { result: InjectResult | AssertResult } | { error: unknown },
+): RunReport {
+  if ('result' in outcome) {
+    const { result } = outcome;
+    return {
+      version: 1,
+      command,
+      ok: 'ok' in result ? result.ok : true,
+      exitCode: EXIT_CODES.SUCCESS,
+      ...resultFields(result),
+    };
+  }
+
+  const { error } = outcome;
+  const partial = error instanceof SddError ? error.details?.result : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    version: 1,
+    command,
+    ok: false,
+    exitCode: exitCodeOf(error),
+    ...(partial ? resultFields(partial) : { targets: [] }),
+    error: {
+      code: error instanceof SddError ? error.code : null,
+      message: stripLogPrefix(message),
+    },
+  };
+}
+
+function resultFields(result: InjectResult | AssertResult) {
+  return {
+    projectLabel: result.projectLabel,
+    ...('updated' in result ? { updated: result.updated } : {}),
+    ...('patch' in result && result.patch !== undefined ? { patch: result.patch } : {}),
+    targets: result.targetResults,
+  };
+}
+
+/**
+ * Serialize a report. `json` is one pretty-printed document; `ndjson` is one
+ * `{"type":"target",...}` line per target followed by a `{"type":"summary",...}` line
+ * carrying every other field. `github` and `sarif` carry the findings only (see {@link listFindings});
+ * `junit` has one testsuite per target file and one testcase per property.
+ */
+export function renderReport(report: RunReport, format: Exclude<OutputFormat, 'text'>): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(report, null, 2);
+    case 'ndjson': {
+      const { targets, ...summary } = report;
+      return [
+        ...targets.map((t) => JSON.stringify({ type: 'target', command: report.command, ...t })),
+        JSON.stringify({ type: 'summary', ...summary }),
+      ].join('\n');
+    }
+    case 'github':
+      return renderGithub(report);
+    case 'sarif':
+      return JSON.stringify(renderSarif(report), null, 2);
+    case 'junit':
+      return renderJunit(report);
+  }
+}
+
+/**
+ * Render the outcome of `list`: a JSON document (`{ version: 1, command: "list", ... }`), or
+ * the resolved settings followed by a table of targets and one line per key/member mismatch
+ * or problem.
+ */
+export function renderListReport(result: ListResult, format: 'text' | 'json'): string {
+  if (format === 'json') return JSON.stringify({ version: 1, command: 'list', ...result }, null, 2);
+
+  const dirs = (['rootDir', 'outDir', 'declarationDir'] as const)
+    .map((key) => `${key} ${result[key] ?? '-'}`)
+    .join(', ');
+  const modules = result.defaults.map((d) => {
+    const loaded = d.error
+      ? `(not loaded: ${d.error.split('\n')[0]})`
+      : d.loadedPath === d.path
+        ? `(${d.loader})`
+        : `→ ${d.loadedPath} (${d.loader})`;
+    return `${d.path} ${loaded}`;
+  });
+  const lines = [
+    ...(result.projectLabel ? [`project   ${result.projectLabel}`] : []),
+    `config    ${result.configPath}`,
+    `tsconfig  ${result.tsconfig ? `${result.tsconfig} (${dirs})` : '(none)'}`,
+    `ts mode   ${result.tsMode}`,
+    ...modules.map((line, i) => `${i ? '          ' : 'defaults  '}${line}`),
+    '',
+  ];
+
+  // the module column only tells targets apart when they use several
+  const perTarget = result.defaults.length > 1;
+  const rows = [
+    ['TARGET', 'KIND', ...(perTarget ? ['DEFAULTS'] : []), 'MEMBER', 'FILES', 'KEYS'],
+    ...result.targets.map((t) => [
+      t.name === t.interfaceName ? t.name : `${t.name} (${t.interfaceName})`,
+      t.kind,
+      ...(perTarget ? [t.defaults] : []),
+      t.member,
+      t.files.map((f) => `${f.path} (${[f.file, ...(f.inferred ? ['inferred'] : []), ...(f.exists ? [] : ['missing'])].join(', ')})`).join(', ') || '-',
+      t.keys ? (t.members ? `${t.matched.length}/${t.keys.length} matched` : `${t.keys.length} (members unknown)`) : '-',
+    ]),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+  lines.push(...rows.map((row) => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join('  ')));
+
+  const notes = result.targets.flatMap((t) => [
+    ...(t.keysWithoutMember.length ? [`${t.name}: keys without member: ${t.keysWithoutMember.join(', ')}`] : []),
+    ...(t.membersWithoutKey.length ? [`${t.name}: members without key: ${t.membersWithoutKey.join(', ')}`] : []),
+    ...t.problems.map((problem) => `${t.name}: ${problem}`),
+  ]);
+  if (notes.length) lines.push('', ...notes);
+  return lines.join('\n');
+}
+
+/**
+ * Render a doctor result: one `PASS`/`WARN`/`FAIL` line per check with its fix underneath, and
+ * a count of each, or the result as a JSON document (same envelope as {@link renderListReport}).
+ */
+export function renderDoctorReport(result: DoctorResult, format: 'text' | 'json'): string {
+  if (format === 'json') return JSON.stringify({ version: 1, command: 'doctor', ...result }, null, 2);
+
+  const label = (check: DoctorResult['checks'][number]) => (check.target ? `${check.id} ${check.target}` : check.id);
+  const width = Math.max(...result.checks.map((check) => label(check).length));
+  const indent = ' '.repeat(width + 8);
+  const lines = result.checks.flatMap((check) => {
+    const [first, ...rest] = check.message.split('\n');
+    return [
+      `${check.status.toUpperCase()}  ${label(check).padEnd(width)}  ${first}`,
+      ...rest.map((line) => `${indent}${line}`),
+      ...(check.status !== 'pass' && check.fix ? check.fix.split('\n').map((line, i) => `${indent}${i ? '     ' : 'fix: '}${line}`) : []),
+    ];
+  });
+  const count = (status: string) => result.checks.filter((check) => check.status === status).length;
+  lines.push('', `${count('pass')} passed, ${count('warn')} warning(s), ${count('fail')} failed`);
+  return lines.join('\n');
+}
+
+type FindingRule = 'default-mismatch' | 'default-missing' | 'member-not-found' | 'pending-update';
+
+/** One reportable problem, located in a target file (1-based positions when known). */
+type Finding = {
+  rule: FindingRule;
+  level: 'error' | 'warning';
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+};
+
+const RULES: Record<FindingRule, string> = {
+  'default-mismatch': 'Documented default does not match the runtime default',
+  'default-missing': 'Member has a runtime default but no documented default',
+  'member-not-found': 'Defaults key has no matching member in the declaration',
+  'pending-update': 'Running inject would rewrite this member\'s doc',
+};
+
+/**
+ * Findings of a report: assert mismatches are errors (located at the member's declaration);
+ * keys without a declared member are errors for assert and warnings for inject/check. For
+ * check, every pending update is an error too.
+ */
+function listFindings(report: RunReport): Finding[] {
+  const findings: Finding[] = [];
+  for (const t of report.targets) {
+    const where = `${t.name}: ${t.interfaceName}`;
+    if ('changes' in t) {
+      if (report.command === 'check') {
+        for (const c of t.changes) findings.push(pendingFinding(t, c));
+      }
+      for (const { prop } of t.missing) {
+        findings.push({ rule: 'member-not-found', level: 'warning', file: t.dtsPath, message: `${where}.${prop} is not declared` });
+      }
+      continue;
+    }
+    for (const m of t.missing) {
+      findings.push(mismatchFinding(t, m));
+    }
+  }
+  return findings;
+}
+
+function pendingFinding(t: InjectTargetResult, c: InjectTargetResult['changes'][number]): Finding {
+  const what = c.after === undefined
+    ? `stale @default ${c.before} would be removed`
+    : c.before === c.after
+      ? `@default ${c.after} would be re-rendered`
+      : `@default would change from ${c.before ?? '(none)'} to ${c.after}`;
+  return { rule: 'pending-update', level: 'error', file: t.dtsPath, message: `${t.name}: ${t.interfaceName}.${c.prop}: ${what} (run sync-doc-defaults inject)` };
+}
+
+function mismatchFinding(t: AssertTargetResult, m: AssertTargetResult['missing'][number]): Finding {
+  const where = `${t.name}: ${t.interfaceName}.${m.prop}`;
+  const rule: FindingRule = m.line === undefined ? 'member-not-found' : m.found === undefined ? 'default-missing' : 'default-mismatch';
+  const message = rule === 'member-not-found'
+    ? `${where} is not declared (expected @default ${m.expected})`
+    : `${where} expected @default ${m.expected} (${m.found === undefined ? 'missing' : `found ${m.found}`})`;
+  return { rule, level: 'error', file: t.dtsPath, line: m.line, column: m.column, message };
+}
+
+/** GitHub Actions `::error`/`::warning` workflow commands; a run error without findings becomes a bare `::error::`. */
+function renderGithub(report: RunReport): string {
+  const escapeData = (s: string) => s.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  const escapeProp = (s: string) => escapeData(s).replace(/:/g, '%3A').replace(/,/g, '%2C');
+
+  const lines = listFindings(report).map((f) => {
+    const props = [`file=${escapeProp(f.file)}`];
+    if (f.line !== undefined) props.push(`line=${f.line}`, `col=${f.column}`);
+    props.push(`title=${escapeProp(`sync-doc-defaults ${f.rule}`)}`);
+    return `::${f.level} ${props.join(',')}::${escapeData(f.message)}`;
+  });
+  if (report.error && !lines.some((l) => l.startsWith('::error'))) {
+    lines.push(`::error title=${escapeProp(`sync-doc-defaults ${report.error.code ?? 'error'}`)}::${escapeData(report.error.message)}`);
+  }
+  return lines.join('\n');
+}
+
+/** A SARIF 2.1.0 log with one run; file URIs are relative to `%SRCROOT%` (the repo root). */
+function renderSarif(report: RunReport) {
+  const findings = listFindings(report);
+  const found = report.error?.code === 'ASSERT_FAILED' || report.error?.code === 'CHECK_FAILED';
+  const ruleIds = Object.keys(RULES) as FindingRule[];
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'sync-doc-defaults',
+          informationUri: 'https://github.com/enkosiventures/sync-doc-defaults',
+          rules: ruleIds.map((id) => ({ id, shortDescription: { text: RULES[id] } })),
+        },
+      },
+      results: findings.map((f) => ({
+        ruleId: f.rule,
+        ruleIndex: ruleIds.indexOf(f.rule),
+        level: f.level,
+        message: { text: f.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: f.file.split(path.sep).join('/'), uriBaseId: '%SRCROOT%' },
+            ...(f.line === undefined ? {} : { region: { startLine: f.line, startColumn: f.column } }),
+          },
+        }],
+      })),
+      invocations: [{
+        // a failed assert/check is a successful execution that found problems
+        executionSuccessful: !report.error || found,
+        exitCode: report.exitCode,
+        ...(report.error && !found
+          ? { toolExecutionNotifications: [{ level: 'error', message: { text: report.error.message } }] }
+          : {}),
+      }],
+    }],
+  };
+}
+
+/**
+ * JUnit XML: one `<testsuite>` per target file and one `<testcase>` per property. For `assert`,
+ * every checked property is a case and mismatches are `<failure>`s carrying the expected and
+ * found literals; a target failing only its coverage check gets a failed `coverage` case. For
+ * `inject`, updated properties pass (for `check` they fail) and undeclared keys are `<skipped>`. A run error other than
+ * `ASSERT_FAILED` is reported as an `<error>` case of its own suite.
+ */
+function renderJunit(report: RunReport): string {
+  const attrs = (values: Record<string, string | number | undefined>) => Object.entries(values)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => ` ${k}="${escapeXml(String(v))}"`)
+    .join('');
+  type Case = { name: string; classname: string; file?: string; line?: number; body?: string; failed?: boolean; errored?: boolean };
+  const suites: Array<{ name: string; cases: Case[] }> = [];
+
+  for (const t of report.targets) {
+    const base = { classname: t.interfaceName, file: t.dtsPath };
+    const cases: Case[] = [];
+    if ('changes' in t) {
+      for (const c of t.changes) {
+        if (report.command !== 'check') {
+          cases.push({ ...base, name: c.prop });
+          continue;
+        }
+        const f = pendingFinding(t, c);
+        const detail = `before: ${c.before ?? '(none)'}\nafter: ${c.after ?? '(removed)'}`;
+        cases.push({ ...base, name: c.prop, failed: true, body: `<failure${attrs({ message: f.message, type: f.rule })}>${escapeXml(detail)}</failure>` });
+      }
+      for (const { prop } of t.missing) cases.push({ ...base, name: prop, body: `<skipped${attrs({ message: 'not declared' })}/>` });
+    } else {
+      for (const prop of t.checked) {
+        const m = t.missing.find((x) => x.prop === prop);
+        if (!m) {
+          cases.push({ ...base, name: prop });
+          continue;
+        }
+        const f = mismatchFinding(t, m);
+        const detail = `expected: ${m.expected}\nfound: ${m.found ?? '(missing)'}`;
+        cases.push({
+          ...base,
+          name: prop,
+          line: m.line,
+          failed: true,
+          body: `<failure${attrs({ message: f.message, type: f.rule })}>${escapeXml(detail)}</failure>`,
+        });
+      }
+      if (!t.ok && !t.missing.length) {
+        const { undocumented = [], stale = [] } = t.coverage ?? {};
+        const detail = [
+          ...undocumented.map((p) => `undocumented: ${p}`),
+          ...stale.map((s) => `stale: ${s.prop} (@default ${s.found})`),
+        ].join('\n');
+        cases.push({ ...base, name: 'coverage', failed: true, body: `<failure${attrs({ message: 'coverage check failed', type: 'coverage' })}>${escapeXml(detail)}</failure>` });
+      }
+    }
+    suites.push({ name: `${t.name} (${t.dtsPath})`, cases });
+  }
+
+  if (report.error && report.error.code !== 'ASSERT_FAILED' && report.error.code !== 'CHECK_FAILED') {
+    suites.push({
+      name: 'sync-doc-defaults',
+      cases: [{
+        name: report.command,
+        classname: 'sync-doc-defaults',
+        errored: true,
+        body: `<error${attrs({ message: report.error.message, type: report.error.code ?? 'Error' })}/>`,
+      }],
+    });
+  }
+
+  const count = (cases: Case[]) => ({
+    tests: cases.length,
+    failures: cases.filter((c) => c.failed).length,
+    errors: cases.filter((c) => c.errored).length,
+    skipped: cases.filter((c) => c.body?.startsWith('<skipped')).length,
+  });
+  const all = suites.flatMap((s) => s.cases);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites${attrs({ name: `sync-doc-defaults ${report.command}`, ...count(all) })}>`,
+  ];
+  for (const suite of suites) {
+    lines.push(`  <testsuite${attrs({ name: suite.name, ...count(suite.cases) })}>`);
+    for (const c of suite.cases) {
+      const open = `    <testcase${attrs({ name: c.name, classname: c.classname, file: c.file, line: c.line })}`;
+      lines.push(c.body ? `${open}>\n      ${c.body}\n    </testcase>` : `${open}/>`);
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return lines.join('\n');
+}
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;')
+    // characters XML 1.0 cannot carry at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
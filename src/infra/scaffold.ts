@@ -0,0 +1,193 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { ConfigFormat, DocDefaultsConfig, InitCandidate, PropLocator } from '../types.js';
+import { regexLocator } from '../dts-ops/index.js';
+import { findMatchingBracket, skipSpace } from '../dts-ops/dry-run-extract.js';
+
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'build', 'coverage']);
+
+/** A `*DEFAULTS*` export found while scanning, with its top-level keys. */
+export type DefaultsExport = { file: string; member: string; keys: string[] };
+
+/** An exported interface or object type alias found while scanning, with its member names. */
+export type DeclaredType = { file: string; name: string; members: string[] };
+
+/**
+ * Lists the TypeScript sources under `rootDir` (`.d.ts` files excluded), skipping dot
+ * directories, `node_modules`, common build folders and any directory in `exclude`.
+ * Paths are absolute and sorted, so scans are deterministic.
+ */
+export async function listSourceFiles(rootDir: string, exclude: string[] = []): Promise<string[]> {
+  const out: string[] = [];
+  const excluded = new Set(exclude.map((dir) => path.resolve(dir)));
+  async function walk(dir: string) {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const abs = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name) || excluded.has(abs)) continue;
+        await walk(abs);
+      } else if (SOURCE_EXTENSIONS.includes(path.extname(entry.name)) && !/\.d\.[cm]?tsx?$/.test(entry.name)) {
+        out.push(abs);
+      }
+    }
+  }
+  await walk(rootDir);
+  return out;
+}
+
+/**
+ * Finds `export const <NAME> = { ... }` declarations whose name contains `DEFAULTS`
+ * (case-insensitive), and the keys of their object literal. Type annotations, `as const`,
+ * `satisfies` and an `Object.freeze(...)` wrapper are accepted; spread and computed keys are
+ * ignored.
+ *
+ * @example
+ * findDefaultsExports("export const DEFAULTS = { a: 1, 'b-c': 2 } as const;", 'src/constants.ts')
+ * // Returns: [{ file: 'src/constants.ts', member: 'DEFAULTS', keys: ['a', 'b-c'] }]
+ */
+export function findDefaultsExports(text: string, file: string): DefaultsExport[] {
+  const out: DefaultsExport[] = [];
+  const headRe = /(?:^|\n)[ \t]*export\s+const\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*/g;
+  let m: RegExpExecArray | null;
+  while ((m = headRe.exec(text))) {
+    const member = m[1];
+    if (!/defaults/i.test(member)) continue;
+    let i = skipSpace(text, m.index + m[0].length);
+    const freeze = /^Object\.freeze\s*\(\s*/.exec(text.slice(i));
+    if (freeze) i += freeze[0].length;
+    if (text[i] !== '{') continue;
+    const close = findMatchingBracket(text, i, '{', '}');
+    if (close === -1) continue;
+    const keys = listObjectLiteralKeys(text.slice(i + 1, close));
+    if (keys.length) out.push({ file, member, keys });
+  }
+  return out;
+}
+
+/**
+ * Finds the exported interfaces and type aliases declared in `text`, with their member names.
+ * The regex locator expects `.d.ts`-style members (`;`-terminated); pass the AST locator to
+ * read sources in any style.
+ */
+export function findDeclaredTypes(text: string, file: string, locator: PropLocator = regexLocator): DeclaredType[] {
+  const out: DeclaredType[] = [];
+  const seen = new Set<string>();
+  const headRe = /(?:^|\n)[ \t]*export\s+(?:declare\s+)?(?:interface|type)\s+([A-Za-z_$][\w$]*)/g;
+  let m: RegExpExecArray | null;
+  while ((m = headRe.exec(text))) {
+    const name = m[1];
+    if (seen.has(name)) continue;
+    seen.add(name);
+    const members = [...new Set(locator.listProps(text, name).map((prop) => prop.name))];
+    if (members.length) out.push({ file, name, members });
+  }
+  return out;
+}
+
+/**
+ * Pairs each defaults export with the declared type that has every one of its keys as a member.
+ * When several types qualify, the one sharing the most name words with the export wins
+ * (`CLIENT_DEFAULTS` → `ClientOptions`), then the one with the fewest extra members.
+ *
+ * @returns One candidate per matched export, plus the exports no type could be matched to
+ */
+export function matchDefaultsToTypes(
+  exports: DefaultsExport[],
+  types: DeclaredType[],
+): { candidates: InitCandidate[]; unmatched: DefaultsExport[] } {
+  const candidates: InitCandidate[] = [];
+  const unmatched: DefaultsExport[] = [];
+  for (const exp of exports) {
+    const words = nameWords(exp.member);
+    let best: { type: DeclaredType; score: number; extra: number } | undefined;
+    for (const type of types) {
+      if (!exp.keys.every((key) => type.members.includes(key))) continue;
+      const typeName = type.name.toLowerCase();
+      const score = words.filter((word) => typeName.includes(word)).length;
+      const extra = type.members.length - exp.keys.length;
+      if (!best || score > best.score || (score === best.score && extra < best.extra)) {
+        best = { type, score, extra };
+      }
+    }
+    if (best) {
+      candidates.push({ defaults: exp.file, member: exp.member, types: best.type.file, interface: best.type.name, keys: exp.keys });
+    } else {
+      unmatched.push(exp);
+    }
+  }
+  return { candidates, unmatched };
+}
+
+/**
+ * Renders a config as the contents of a `docdefaults.config.<format>` file. The module
+ * formats carry a type annotation so editors can check the config.
+ */
+export function renderConfigFile(config: DocDefaultsConfig, format: ConfigFormat): string {
+  if (format === 'json') return `${JSON.stringify(config, null, 2)}\n`;
+  // JSON with identifier keys unquoted
+  const literal = JSON.stringify(config, null, 2).replace(/^(\s*)"([A-Za-z_$][\w$]*)":/gm, '$1$2:');
+  const jsdocType = `/** @type {import('sync-doc-defaults').DocDefaultsConfig} */`;
+  switch (format) {
+    case 'mjs':
+      return `${jsdocType}\nexport default ${literal};\n`;
+    case 'cjs':
+      return `${jsdocType}\nmodule.exports = ${literal};\n`;
+    case 'ts':
+      return `import type { DocDefaultsConfig } from 'sync-doc-defaults';\n\nconst config: DocDefaultsConfig = ${literal};\n\nexport default config;\n`;
+  }
+}
+
+/* ---------------- internals ---------------- */
+
+/** Lower-cased words of an identifier, `DEFAULT(S)` excluded: `CLIENT_RETRY_DEFAULTS` → `client`, `retry`. */
+function nameWords(identifier: string): string[] {
+  return identifier
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .split(/[_$]+/)
+    .map((word) => word.toLowerCase())
+    .filter((word) => word && word !== 'defaults' && word !== 'default');
+}
+
+/** Top-level property names of an object literal body (the text between its braces). */
+function listObjectLiteralKeys(body: string): string[] {
+  const keys: string[] = [];
+  let entryStart = 0;
+  const flush = (end: number) => {
+    const entry = body.slice(entryStart, end).replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, '').trim();
+    const m = /^(?:(["'])((?:(?!\1).)*)\1|([A-Za-z_$][\w$]*))\s*(?:[:(]|$)/.exec(entry);
+    if (m && !entry.startsWith('...')) keys.push(m[2] ?? m[3]);
+  };
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(body, i);
+    } else if (ch === '/' && body[i + 1] === '/') {
+      const eol = body.indexOf('\n', i);
+      i = eol === -1 ? body.length : eol;
+    } else if (ch === '/' && body[i + 1] === '*') {
+      const end = body.indexOf('*/', i + 2);
+      i = end === -1 ? body.length : end + 1;
+    } else if (ch === '{' || ch === '[' || ch === '(') {
+      const close = findMatchingBracket(body, i, ch, ch === '{' ? '}' : ch === '[' ? ']' : ')');
+      i = close === -1 ? body.length : close;
+    } else if (ch === ',') {
+      flush(i);
+      entryStart = i + 1;
+    }
+  }
+  flush(body.length);
+  return keys;
+}
+
+/** Index of the quote closing the string literal opened at `start`. */
+function skipString(text: string, start: number): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') i++;
+    else if (text[i] === quote) return i;
+  }
+  return text.length;
+}
@@ -2,7 +2,8 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { pathToFileURL } from 'node:url';
 import { createRequire } from 'node:module';
-import type { TsMode } from '../types.js';
+import type * as TS from 'typescript';
+import type { LoadedModule, TsMode } from '../types.js';
 import { inferBuiltJsForTs } from './tsconfig-resolver.js';
 import { createLogger } from './log.js';
 import { SddError } from '../errors.js';
@@ -21,6 +22,20 @@ export function resolveTsxFrom(repoRoot: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Loads the TypeScript compiler API from the target project (never from this package),
+ * mirroring how {@link resolveTsxFrom} resolves `tsx`.
+ * @returns The `typescript` module, or `undefined` when it is not installed there
+ */
+export function loadTypeScriptFrom(repoRoot: string): typeof TS | undefined {
+  const require = createRequire(path.join(repoRoot, 'package.json'));
+  try {
+    return require(require.resolve('typescript'));
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Intelligently loads a module (TypeScript or JavaScript) with automatic format detection and fallback strategies.
  * 
@@ -68,6 +83,17 @@ export function resolveTsxFrom(repoRoot: string): string | undefined {
  * });
  */
 export async function loadModuleSmart(
+  defaultsModulePathAbs: string,
+  options: Parameters<typeof loadModuleResolved>[1],
+): Promise<any> {
+  return (await loadModuleResolved(defaultsModulePathAbs, options)).module;
+}
+
+/**
+ * {@link loadModuleSmart}, also reporting which file was imported and how: the module itself
+ * (`json`, `js`), its built JS (`built-js`) or `.cjs` twin (`built-cjs`), or the TS source via `tsx`.
+ */
+export async function loadModuleResolved(
   defaultsModulePathAbs: string,
   options: {
     repoRoot: string;
@@ -77,21 +103,22 @@ export async function loadModuleSmart(
     tsMode?: TsMode;
     quiet?: boolean;
     debug?: boolean;
+    silent?: boolean;
   }
-): Promise<any> {
-  const logger = createLogger(options);
+): Promise<LoadedModule> {
+  const logger = createLogger({ ...options, debugPaths: options.debug });
   const extension = path.extname(defaultsModulePathAbs).toLowerCase();
 
   if (extension === '.json') {
     logger.dbg(`Loading JSON module ${getRelativePath(options.repoRoot, defaultsModulePathAbs)}`);
-    return JSON.parse(await fs.promises.readFile(defaultsModulePathAbs, 'utf8'));
+    return { module: JSON.parse(await fs.promises.readFile(defaultsModulePathAbs, 'utf8')), loadedPath: defaultsModulePathAbs, loader: 'json' };
   }
 
   if (extension === '.js' || extension === '.mjs' || extension === '.cjs') {
     logger.dbg(`Loading JS module ${getRelativePath(options.repoRoot, defaultsModulePathAbs)}`);
     try {
       const module = await import(pathToFileURL(defaultsModulePathAbs).href);
-      return module?.default ?? module;
+      return { module: module?.default ?? module, loadedPath: defaultsModulePathAbs, loader: 'js' };
     } catch (err: any) {
       const msg = String(err?.message || err);
       // Helpful hints for common DX issues
@@ -140,7 +167,7 @@ export async function loadModuleSmart(
     if (built && fs.existsSync(built)) {
       try {
         const module = await import(pathToFileURL(built).href);
-        return module?.default ?? module;
+        return { module: module?.default ?? module, loadedPath: built, loader: 'built-js' };
       } catch (err: any) {
         logger.warn(
           `Failed to import built JS ${getRelativePath(
@@ -154,7 +181,7 @@ export async function loadModuleSmart(
           logger.log(`Attempting to load .cjs fallback ${getRelativePath(options.repoRoot, cjs)}`);
           const req = createRequire(path.join(options.repoRoot, 'package.json'));
           const m = req(cjs);
-          return (m && m.__esModule) ? (m.default ?? m) : m;
+          return { module: (m && m.__esModule) ? (m.default ?? m) : m, loadedPath: cjs, loader: 'built-cjs' };
         }
 
         // 1b) If TS is allowed, gracefully fallback to TS via tsx
@@ -172,7 +199,7 @@ export async function loadModuleSmart(
             logger.dbg?.(`tsx register: ${getRelativePath(options.repoRoot, tsxPath)}`);
             await import(pathToFileURL(tsxPath).href); // activate tsx loader
             const module = await import(pathToFileURL(defaultsModulePathAbs).href);
-            return module?.default ?? module;
+            return { module: module?.default ?? module, loadedPath: defaultsModulePathAbs, loader: 'tsx' };
           }
           if (mode === 'on') {
             throw new SddError(
@@ -211,7 +238,7 @@ export async function loadModuleSmart(
       if (tsxPath) {
         await import(pathToFileURL(tsxPath).href);
         const module = await import(pathToFileURL(defaultsModulePathAbs).href);
-        return module?.default ?? module;
+        return { module: module?.default ?? module, loadedPath: defaultsModulePathAbs, loader: 'tsx' };
       }
       if (mode === 'on') {
         throw new SddError(
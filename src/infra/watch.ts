@@ -0,0 +1,224 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Logger } from './log.js';
+
+
+/** What `watch` observes, as absolute paths. */
+export type WatchPlan = {
+  /** The config file; a change re-plans and re-runs every target. */
+  configPath: string;
+
+  /**
+   * Each target's label, the files it writes, and its defaults module with the local modules
+   * it imports (source and built JS); a change to any of them re-runs that target.
+   */
+  targets: Array<{ name: string; files: string[]; defaults: string[] }>;
+};
+
+export type WatchLoopOptions = {
+  /** Computes what to watch; called at start and whenever the config changes. */
+  plan: () => Promise<WatchPlan>;
+
+  /** Runs inject for the given target labels, or for all targets when `undefined`. */
+  run: (targets: string[] | undefined) => Promise<void>;
+
+  /** Quiet period after the last change before running. */
+  debounceMs: number;
+
+  logger: Logger;
+};
+
+/** Relative specifiers of static `import`/`export ... from` statements (group 1; use with `matchAll`). */
+export const STATIC_IMPORT_RES = [
+  /\bfrom\s*['"](\.{1,2}\/[^'"]+)['"]/g,
+  /\bimport\s*['"](\.{1,2}\/[^'"]+)['"]/g,
+];
+
+/** {@link STATIC_IMPORT_RES} plus dynamic `import()` and `require()` calls. */
+export const IMPORT_RES = [
+  ...STATIC_IMPORT_RES,
+  /\bimport\s*\(\s*['"](\.{1,2}\/[^'"]+)['"]\s*\)/g,
+  /\brequire\s*\(\s*['"](\.{1,2}\/[^'"]+)['"]\s*\)/g,
+];
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.mjs', '.cjs', '.json'];
+
+/**
+ * Collects `entries` and every local module they import, transitively (relative specifiers of
+ * `import`/`export ... from`, dynamic `import()` and `require()`). A `.js` specifier also
+ * resolves to its `.ts` source, as in TypeScript ESM projects. Missing entries are skipped.
+ *
+ * @returns Absolute paths, entries first
+ */
+export function collectImportGraph(entries: string[]): string[] {
+  const seen = new Set<string>();
+  const queue = entries.filter((file) => fs.existsSync(file));
+  while (queue.length) {
+    const file = queue.shift()!;
+    if (seen.has(file)) continue;
+    seen.add(file);
+    let text: string;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch {
+      continue;
+    }
+    for (const re of IMPORT_RES) {
+      for (const match of text.matchAll(re)) {
+        const resolved = resolveImport(path.dirname(file), match[1]);
+        if (resolved && !seen.has(resolved)) queue.push(resolved);
+      }
+    }
+  }
+  return [...seen];
+}
+
+/**
+ * Watches the files of a {@link WatchPlan} and calls `run` for the targets a change affects:
+ * every target when the config changed, otherwise the targets whose files or defaults modules
+ * changed. Changes are debounced, and runs never overlap (changes arriving meanwhile
+ * are handled once the run ends).
+ *
+ * Directories are watched rather than files, so editors' and compilers' replace-by-rename
+ * writes are seen. A change is only acted on when the file's contents differ from the last
+ * ones seen; the targets' files are re-read after each run, so the run's own writes do not
+ * trigger another one.
+ *
+ * Runs all targets once at start.
+ */
+export async function startWatchLoop(options: WatchLoopOptions): Promise<{ close: () => void }> {
+  const { run, debounceMs, logger } = options;
+  let plan = await options.plan();
+  const watchers = new Map<string, fs.FSWatcher>();
+  const snapshot = new Map<string, string | undefined>();
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+  let closed = false;
+
+  const watchedFiles = () => [...new Set([plan.configPath, ...plan.targets.flatMap((t) => [...t.defaults, ...t.files])])];
+  const read = (file: string) => {
+    try {
+      return fs.readFileSync(file, 'utf8');
+    } catch {
+      return undefined;
+    }
+  };
+
+  /** Watches the directory of each file (its nearest existing ancestor until it is created); returns newly watched ones. */
+  function refreshWatchers(): string[] {
+    const added: string[] = [];
+    const dirs = new Set(watchedFiles().map((file) => nearestExistingDir(path.dirname(file))));
+    for (const [dir, watcher] of watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        watchers.delete(dir);
+      }
+    }
+    for (const dir of dirs) {
+      if (watchers.has(dir)) continue;
+      try {
+        watchers.set(dir, fs.watch(dir, (_event, filename) => onEvent(dir, filename?.toString())));
+        added.push(dir);
+      } catch (err: any) {
+        logger.warn(`watch: cannot watch ${dir}: ${err?.message ?? err}`);
+      }
+    }
+    return added;
+  }
+
+  function onEvent(dir: string, filename: string | undefined) {
+    if (closed) return;
+    const files = watchedFiles();
+    for (const file of files) {
+      if (filename ? file === path.join(dir, filename) : path.dirname(file) === dir) pending.add(file);
+    }
+    // `dir` stands in for a missing directory, which may just have been created: watch it
+    // instead, and look at its files (they may have been written before the watcher started)
+    if (files.some((file) => path.dirname(file) !== dir && file.startsWith(dir + path.sep))) {
+      const added = refreshWatchers();
+      for (const file of files) if (added.includes(path.dirname(file))) pending.add(file);
+    }
+    if (!pending.size) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => void flush(), debounceMs);
+  }
+
+  async function flush() {
+    if (running) return; // picked up when the current run ends
+    const changed = [...pending].filter((file) => read(file) !== snapshot.get(file));
+    pending.clear();
+    if (!changed.length) return;
+    for (const file of changed) snapshot.set(file, read(file));
+
+    let targets: string[] | undefined;
+    if (changed.includes(plan.configPath)) {
+      logger.log('watch: config changed, reloading');
+      try {
+        plan = await options.plan();
+      } catch (err: any) {
+        logger.error(err?.message ?? String(err));
+        return;
+      }
+      takeSnapshot(watchedFiles());
+      refreshWatchers();
+    } else {
+      const affected = plan.targets.filter((t) => [...t.defaults, ...t.files].some((file) => changed.includes(file)));
+      if (affected.length < plan.targets.length) targets = affected.map((t) => t.name);
+    }
+    logger.log(`watch: ${changed.map((file) => path.basename(file)).join(', ')} changed → ${targets ? targets.join(', ') : 'all targets'}`);
+    await runOnce(targets);
+  }
+
+  async function runOnce(targets: string[] | undefined) {
+    running = (async () => {
+      try {
+        await run(targets);
+      } catch (err: any) {
+        logger.error(err?.message ?? String(err));
+      }
+      // our own writes are the new baseline
+      const written = plan.targets.filter((t) => !targets || targets.includes(t.name)).flatMap((t) => t.files);
+      takeSnapshot(written);
+    })();
+    await running;
+    running = undefined;
+    if (pending.size && !closed) await flush();
+  }
+
+  function takeSnapshot(files: string[]) {
+    for (const file of files) snapshot.set(file, read(file));
+  }
+
+  takeSnapshot(watchedFiles());
+  refreshWatchers();
+  await runOnce(undefined);
+
+  return {
+    close() {
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
+
+function resolveImport(fromDir: string, specifier: string): string | undefined {
+  const base = path.resolve(fromDir, specifier);
+  const stem = base.replace(/\.[cm]?js$/, '');
+  const candidates = [
+    base,
+    ...RESOLVE_EXTENSIONS.map((ext) => stem + ext),
+    ...RESOLVE_EXTENSIONS.map((ext) => path.join(base, `index${ext}`)),
+  ];
+  return candidates.find((file) => fs.existsSync(file) && fs.statSync(file).isFile());
+}
+
+function nearestExistingDir(dir: string): string {
+  while (!fs.existsSync(dir)) {
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return dir;
+}
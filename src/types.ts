@@ -23,6 +23,56 @@ export type TsMode = 'auto' | 'on' | 'off';
  */
 export type PreferredTag = 'default' | 'defaultValue';
 
+/**
+ * How interface members are located inside `.d.ts` text.
+ *  - `regex` is the built-in, dependency-free scanner (simple declaration shapes).
+ *  - `ast` parses the file with the TypeScript compiler API, resolved from the target
+ *    project (requires `typescript` to be installed there).
+ */
+export type LocatorKind = 'regex' | 'ast';
+
+/**
+ * What kind of declaration a target names.
+ *  - `interface` covers interfaces and object type aliases.
+ *  - `class` covers (abstract) classes: property declarations are documented, and optionally
+ *    the fields of a constructor options parameter (see `TargetConfig.constructorParam`).
+ *  - `function` covers exported function declarations: defaults are written to the function's
+ *    own JSDoc as `@param` tags (see `TargetConfig.param`).
+ */
+export type TargetKind = 'interface' | 'class' | 'function';
+
+/**
+ * Which files a target's defaults are synced into.
+ *  - `dts`: the emitted `.d.ts` (`TargetConfig.dts`, or inferred from tsconfig).
+ *  - `source`: the TypeScript source declaring the type (`TargetConfig.types`), rewritten in place
+ *    so the docs live in git and flow into emitted declarations.
+ *  - `both`: the source, then the `.d.ts`.
+ */
+export type SyncMode = 'dts' | 'source' | 'both';
+
+/**
+ * How `assert` treats a coverage finding (see `DocDefaultsConfig.coverage`).
+ *  - `off`: not reported.
+ *  - `warn`: logged as a warning; `assert` still passes.
+ *  - `error`: logged as an error and `assert` fails.
+ */
+export type CoveragePolicy = 'off' | 'warn' | 'error';
+
+/** Per-finding policies for the `assert` coverage check. */
+export interface CoverageConfig {
+  /**
+   * Optional members that have neither a runtime default nor a `@default` tag.
+   * @default "warn"
+   */
+  undocumented?: CoveragePolicy;
+
+  /**
+   * Members documenting a `@default` whose key is no longer in the defaults object.
+   * @default "error"
+   */
+  stale?: CoveragePolicy;
+}
+
 /** Fields shared by public & internal options. */
 export interface CommonOptions {
   /**
@@ -34,6 +84,12 @@ export interface CommonOptions {
   /** Suppress routine logs; still print actionable errors. */
   quiet?: boolean;
 
+  /**
+   * Suppress all logs, errors included. Outcomes are then only reported through the returned
+   * results and thrown errors (the CLI sets this for its machine-readable `--format`s).
+   */
+  silent?: boolean;
+
   /** Verbose path-resolution breadcrumbs for debugging. */
   debugPaths?: boolean;
 
@@ -46,6 +102,36 @@ export interface CommonOptions {
    * Which JSDoc tag to render for defaults. See {@link DefaultTag}.
    */
   tag?: PreferredTag;
+
+  /**
+   * (assert) Require documented literals to match the rendered ones byte-for-byte instead of
+   * comparing them structurally. Overrides `DocDefaultsConfig.strict`.
+   */
+  strict?: boolean;
+
+  /**
+   * (inject) Remove `@default`/`@defaultValue` tags from members whose key is no longer in the
+   * defaults object. Overrides `DocDefaultsConfig.prune`.
+   */
+  prune?: boolean;
+
+  /**
+   * (inject, with `dryRun`) Colorize the printed diff.
+   * Defaults to whether stdout is a TTY and `NO_COLOR` is unset.
+   */
+  color?: boolean;
+
+  /**
+   * Only process the targets with these labels (`TargetConfig.name`, else the interface name).
+   * All targets are processed when omitted.
+   */
+  targets?: string[];
+
+  /**
+   * Which files to inject into / assert. See {@link SyncMode}.
+   * Overrides `TargetConfig.mode` and `DocDefaultsConfig.mode`.
+   */
+  mode?: SyncMode;
 }
 
 /** Public-facing options (CLI + library entry points). */
@@ -69,7 +155,10 @@ export interface Options extends CommonOptions {
 export type JSDoc = {
   /** Lines of human description above the tags (no leading `*`). */
   description: string[];
-  /** Structured tags (`@tag...`) preserved in order of appearance. */
+  /**
+   * Structured tags (`@tag...`) preserved in order of appearance.
+   * Lines following a tag (until the next tag) belong to it: `text` then contains `\n`.
+   */
   tags: Array<{ tag: string; text: string }>;
 };
 
@@ -107,6 +196,27 @@ export type LoadedTsProject = {
 };
 
 
+/**
+ * How the defaults module was imported:
+ *  - `json` / `js`: the configured file itself.
+ *  - `built-js`: the compiled JS inferred from tsconfig for a `.ts` module (`built-cjs`: its `.cjs` twin).
+ *  - `tsx`: the TypeScript source, through the target project's `tsx`.
+ */
+export type ModuleLoader = 'json' | 'js' | 'built-js' | 'built-cjs' | 'tsx';
+
+/** A loaded defaults module and where it came from. */
+export type LoadedModule = {
+  /** The module namespace (its default export, when present). */
+  module: any;
+
+  /** Absolute path of the file that was imported. */
+  loadedPath: string;
+
+  /** How it was imported. See {@link ModuleLoader}. */
+  loader: ModuleLoader;
+};
+
+
 /* ----------------------------------------------------------------------------
  * High-level configuration and results
  * ------------------------------------------------------------------------- */
@@ -123,15 +233,73 @@ export interface DocDefaultsConfig {
   tsconfig?: string;
 
   /**
-   * Repo-relative module path for the defaults source.
+   * Repo-relative module path for the defaults source, used by every target that does not set
+   * its own {@link TargetConfig.defaults}. May be omitted when all targets do.
    */
-  defaults: string;
+  defaults?: string;
 
   /**
    * Preferred JSDoc tag to render when injecting defaults.
    */
   tag?: PreferredTag;
 
+  /**
+   * Object/array default literals longer than this many characters are pretty-printed
+   * as indented JSON on the lines below the tag instead of inline.
+   * @default 80
+   */
+  inlineWidth?: number;
+
+  /**
+   * Make `assert` compare documented literals byte-for-byte with the rendered ones.
+   * By default they are parsed (JSON5/JS-literal grammar) and compared structurally.
+   * @default false
+   */
+  strict?: boolean;
+
+  /**
+   * Custom serializers for domain-specific values (class instances, functions, ...), tried in
+   * order before the built-in rules. See {@link SerializerHook}.
+   * Targets can list their own in `TargetConfig.serializers`; those are tried first.
+   */
+  serializers?: SerializerHook[];
+
+  /**
+   * Which files to sync: the emitted `.d.ts`, the `types` source, or both. See {@link SyncMode}.
+   * @default "dts"
+   */
+  mode?: SyncMode;
+
+  /**
+   * Make `inject` strip `@default`/`@defaultValue` from members whose key no longer exists in the
+   * defaults object (the rest of the JSDoc is kept; blocks left empty are removed).
+   * @default false
+   */
+  prune?: boolean;
+
+  /**
+   * Opt-in coverage check for `assert`: also report optional members without a runtime default
+   * and stale `@default` tags whose key was removed from the defaults. `true` uses the
+   * {@link CoverageConfig} defaults (`undocumented: "warn"`, `stale: "error"`).
+   * @default false
+   */
+  coverage?: boolean | CoverageConfig;
+
+  /**
+   * Per-property overrides keyed by `"Interface.prop"` (nested members by path:
+   * `"Interface.retry.backoffMs"`). A string is documented verbatim instead of the runtime
+   * value; `false` leaves the member untouched by `inject` and unchecked by `assert`.
+   * Take precedence over `@sddDefault`/`@sddIgnore` markers in the member's own JSDoc.
+   * @example { "ClientOptions.transform": "computed at runtime", "ClientOptions.apiKey": false }
+   */
+  overrides?: Record<string, string | false>;
+
+  /**
+   * How to locate interface members in `.d.ts` files. See {@link LocatorKind}.
+   * @default "regex"
+   */
+  locator?: LocatorKind;
+
   /**
    * Optional human-readable project label (appears in CLI output).
    * Does not affect behavior.
@@ -159,7 +327,8 @@ export interface TargetConfig {
   /**
    * Repo-relative path to the TypeScript file that declares the interface
    * (e.g., `packages/foo/src/types.ts`).
-   * Used to infer the emitted `.d.ts` location when `dtsPath` is omitted.
+   * Used to infer the emitted `.d.ts` location when `dtsPath` is omitted, and rewritten
+   * in place in `source` mode.
    */
   types: string;
 
@@ -172,10 +341,44 @@ export interface TargetConfig {
 
   /**
    * The **interface name** inside the `.d.ts` that should receive `@default`
-   * doc comments.
+   * doc comments. Type aliases of object literals are accepted too
+   * (`type X = { ... }`, including intersections such as `Base & { ... }`).
+   *
+   * Qualified names select declarations inside namespaces or ambient modules:
+   * `"Foo.Bar"` for `declare namespace Foo { interface Bar {} }` and `'"x".Options'`
+   * for `declare module "x" { interface Options {} }`. Members are looked up across
+   * all merged declarations of the interface.
    */
   interface: string;
 
+  /**
+   * Declaration kind of `interface`. Set to `"class"` to document the property
+   * declarations of `class X { ... }` (including `abstract`/`declare` classes).
+   * @default "interface"
+   */
+  kind?: TargetKind;
+
+  /**
+   * Class targets only: name of a constructor parameter whose object type
+   * (inline, or an interface/type alias in the same `.d.ts`) also receives `@default` docs,
+   * e.g. `"options"` for `constructor(options?: { timeout?: number })`.
+   */
+  constructorParam?: string;
+
+  /**
+   * Function targets only: name of the parameter whose object type holds the defaulted options.
+   * Each default key `k` is written as `@param <param>.k - ... (default: <literal>)`, e.g.
+   * `"opts"` for `createClient(opts?: ClientOptions)`. When omitted, default keys name the
+   * function's parameters themselves (`@param retries - ... (default: 3)`).
+   */
+  param?: string;
+
+  /**
+   * Repo-relative defaults module for this target; overrides `DocDefaultsConfig.defaults`.
+   * Modules are loaded on first use and once per path, however many targets share them.
+   */
+  defaults?: string;
+
   /**
    * The symbol (or dotted path) inside the module where your defaults are defined.
    * Examples:
@@ -183,21 +386,52 @@ export interface TargetConfig {
    *   - `"DEFAULTS.consent"` (nested property)
    */
   member: string;
+
+  /**
+   * Descend into nested defaults objects (e.g. `DEFAULTS.retry.backoffMs`).
+   * When true, members of a property's inline object type (`retry?: { backoffMs?: number }`)
+   * or of an interface/type alias it references in the same `.d.ts` also receive `@default`.
+   * @default false
+   */
+  recursive?: boolean;
+
+  /**
+   * Which files to sync for this target; overrides `DocDefaultsConfig.mode`.
+   */
+  mode?: SyncMode;
+
+  /**
+   * Serializers for this target only, tried before `DocDefaultsConfig.serializers`.
+   */
+  serializers?: SerializerHook[];
 };
 
 /**
  * Per-target result for an **inject** run.
  */
 export interface InjectTargetResult {
+  /** Target label (`TargetConfig.name`, or the interface name). */
+  name: string;
+
   /** The interface name that was processed. */
   interfaceName: string;
 
-  /** Repo-relative path to the `.d.ts` that was updated. */
+  /** Repo-relative path to the file that was updated (the `.d.ts`, or the source in `source` mode). */
   dtsPath: string;
 
-  /** Number of properties that received an inserted/replaced default doc. */
+  /** Whether `dtsPath` is the emitted `.d.ts` or the `types` source. */
+  file: 'dts' | 'source';
+
+  /** Number of properties that received an inserted/replaced (or pruned) default doc. */
   updated: number;
 
+  /**
+   * The updated properties (dotted paths in recursive mode) with the documented literal before
+   * and after the run. `before` is absent when there was no default; `after` is absent when a
+   * stale default was pruned. Equal literals mean only the tag was normalized.
+   */
+  changes: Array<{ prop: string; before?: string; after?: string }>;
+
   /**
    * Properties that were requested but not found in the interface body.
    * The interface still counts as processed even if some props were missing.
@@ -220,6 +454,12 @@ export interface InjectResult {
 
   /** Detailed per-target outcomes. */
   targetResults: InjectTargetResult[];
+
+  /**
+   * With `dryRun`: a unified diff of every file that would change, applicable with `git apply`
+   * from `repoRoot` (paths are relative to it). Empty when nothing would change.
+   */
+  patch?: string;
 }
 
 /**
@@ -227,23 +467,47 @@ export interface InjectResult {
  * Only contains mismatches/missing properties (no updates occur).
  */
 export interface AssertTargetResult {
+  /** Target label (`TargetConfig.name`, or the interface name). */
+  name: string;
+
   /** The interface name that was asserted. */
   interfaceName: string;
 
-  /** Repo-relative path to the `.d.ts` file that was checked. */
+  /** Repo-relative path to the file that was checked (the `.d.ts`, or the source in `source` mode). */
   dtsPath: string;
 
+  /** Whether `dtsPath` is the emitted `.d.ts` or the `types` source. */
+  file: 'dts' | 'source';
+
+  /** False when there are mismatches or coverage findings with the `error` policy. */
+  ok: boolean;
+
   /**
    * Each entry describes a property whose doc default did not match
-   * the expected literal (or was missing).
+   * the expected literal (or was missing). `line`/`column` (1-based) locate the member's
+   * declaration in `dtsPath`; they are absent when the member itself is not declared.
    */
-  missing: Array<{ prop: string; expected: string; found?: string }>;
+  missing: Array<{ prop: string; expected: string; found?: string; line?: number; column?: number }>;
+
+  /** Every property path that was compared, matching or not (skipped members are not listed). */
+  checked: string[];
+
+  /** Coverage findings, when `DocDefaultsConfig.coverage` is enabled (dotted property paths). */
+  coverage?: {
+    /** Optional members with no runtime default and no `@default` tag. */
+    undocumented: string[];
+    /** Members whose documented `@default` has no runtime key, with the documented literal. */
+    stale: Array<{ prop: string; found: string }>;
+  };
 }
 
 /**
  * Aggregated result for an **assert** run across all targets.
  */
 export interface AssertResult {
+  /** Whether every target passed. */
+  ok: boolean;
+
   /** Echo of {@link DocDefaultsConfig.label} if provided. */
   projectLabel?: string;
 
@@ -251,8 +515,254 @@ export interface AssertResult {
   targetResults: AssertTargetResult[];
 }
 
+/**
+ * Per-target entry of a **list** run: how the target resolved, and how its defaults keys line up
+ * with the declared members.
+ */
+export interface ListTargetResult {
+  /** Target label (`TargetConfig.name`, or the interface name). */
+  name: string;
+
+  /** The interface (class, function) name. */
+  interfaceName: string;
+
+  /** Declaration kind (`TargetConfig.kind`, default `interface`). */
+  kind: TargetKind;
+
+  /** Repo-relative path of the target's defaults module (its own, else the config's). */
+  defaults: string;
+
+  /** The defaults member path (`TargetConfig.member`). */
+  member: string;
+
+  /** Effective sync mode (options, then target, then config; default `dts`). */
+  mode: SyncMode;
+
+  /** Repo-relative `types` source path. */
+  types: string;
+
+  /**
+   * The files the target syncs (repo-relative). `inferred` marks a `.d.ts` path derived from
+   * tsconfig rather than set as `TargetConfig.dts`.
+   */
+  files: Array<{ file: 'dts' | 'source'; path: string; inferred: boolean; exists: boolean }>;
+
+  /** Top-level keys of the defaults object; absent when it could not be resolved. */
+  keys?: string[];
+
+  /** Members declared by the interface (parameters for function targets), read from the first existing file; absent when not found. */
+  members?: string[];
+
+  /** Keys that are declared members. */
+  matched: string[];
+
+  /** Keys with no declared member (`inject` reports them as missing). */
+  keysWithoutMember: string[];
+
+  /** Declared members with no key in the defaults. */
+  membersWithoutKey: string[];
+
+  /** Why some of the above could not be resolved (missing files, unknown symbols, ...). */
+  problems: string[];
+}
+
+/**
+ * Result of a **list** run: the resolved project settings and every selected target.
+ */
+export interface ListResult {
+  /** Echo of {@link DocDefaultsConfig.label} if provided. */
+  projectLabel?: string;
+
+  /** Repo-relative path of the config file. */
+  configPath: string;
+
+  /** Repo-relative path of the tsconfig used, if any. */
+  tsconfig?: string;
+
+  /** tsconfig `rootDir`, `outDir` and `declarationDir` (repo-relative), when set. */
+  rootDir?: string;
+  outDir?: string;
+  declarationDir?: string;
+
+  /** The effective TypeScript handling mode. */
+  tsMode: TsMode;
+
+  /**
+   * The defaults modules used by the selected targets, in order of first use: each as
+   * configured, and the file that was actually imported and how (see {@link ModuleLoader});
+   * `error` when it could not be loaded.
+   */
+  defaults: Array<{ path: string; loadedPath?: string; loader?: ModuleLoader; error?: string }>;
+
+  /** One entry per selected target, in config order. */
+  targets: ListTargetResult[];
+}
+
+/** Outcome of one **doctor** check: `fail` means a command would fail, `warn` that it relies on a fallback. */
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+/** One line of the **doctor** checklist. */
+export interface DoctorCheck {
+  /** Stable identifier: `config`, `tsconfig`, `package-type`, `esm-imports`, `built-js`, `tsx`, `locator`, `defaults` or `target`. */
+  id: string;
+
+  status: DoctorStatus;
+
+  /** The target a `target` check is about. */
+  target?: string;
+
+  /** What was found. */
+  message: string;
+
+  /** How to fix it (for `warn` and `fail`). */
+  fix?: string;
+}
+
+/**
+ * Result of a **doctor** run: the checklist, in the order the checks ran.
+ */
+export interface DoctorResult {
+  /** `false` when any check failed. */
+  ok: boolean;
+
+  /** Echo of {@link DocDefaultsConfig.label} if provided. */
+  projectLabel?: string;
+
+  checks: DoctorCheck[];
+}
+
+/**
+ * File format of a scaffolded config (`docdefaults.config.<format>`).
+ * `mjs`/`cjs`/`ts` files carry a {@link DocDefaultsConfig} type annotation.
+ */
+export type ConfigFormat = 'mjs' | 'cjs' | 'json' | 'ts';
+
+/** Options for scaffolding a config with `init`. */
+export interface InitOptions extends Pick<RunOptions, 'repoRoot' | 'dryRun' | 'quiet' | 'silent' | 'debugPaths'> {
+  /**
+   * Format of the written config file.
+   * @default "mjs"
+   */
+  format?: ConfigFormat;
+
+  /** Overwrite an existing config in `repoRoot` instead of failing with `CONFIG_EXISTS`. */
+  force?: boolean;
+}
+
+/** A defaults export paired with the declared type it documents (repo-relative paths). */
+export interface InitCandidate {
+  /** Module exporting the defaults object. */
+  defaults: string;
+
+  /** Name of the export (`TargetConfig.member`). */
+  member: string;
+
+  /** File declaring the matched interface or type alias (`TargetConfig.types`). */
+  types: string;
+
+  /** Name of the matched interface or type alias. */
+  interface: string;
+
+  /** Keys of the defaults object (all declared members of `interface`). */
+  keys: string[];
+}
+
+/**
+ * Result of an **init** run.
+ */
+export interface InitResult {
+  /** Repo-relative path of the config file (not written with `dryRun`). */
+  configPath: string;
+
+  /** The scaffolded config. */
+  config: DocDefaultsConfig;
+
+  /** The rendered file contents. */
+  contents: string;
+
+  /** Whether the file was written (false with `dryRun`). */
+  written: boolean;
+
+  /** Defaults exports that did not become targets, as no declared type has all of their keys. */
+  skipped: Array<{ defaults: string; member: string; reason: string }>;
+}
+
+/**
+ * A located interface member: where its head starts and how it is indented.
+ * Locators that know the exact JSDoc attached to the member also report its range
+ * (starting at the doc's line start, as {@link JSDoc} edits replace the whole line).
+ */
+export type PropHead = {
+  /** Property name (quotes stripped). */
+  name: string;
+  /** Offset of the member head (after indentation, at `readonly`/name). */
+  headStart: number;
+  /** Whitespace preceding the head on its line. */
+  indent: string;
+  /** Existing leading doc, when known precisely (`text` is empty when there is none). */
+  doc?: { range: [number, number]; text: string };
+  /** Whether the member is declared optional (`name?:`). */
+  optional?: boolean;
+};
+
+/** Which declaration {@link PropLocator.listProps} looks for, and what it lists. */
+export type LocateOptions = {
+  /** @default "interface" */
+  kind?: TargetKind;
+  /** For classes: also list the members of this constructor parameter's type. */
+  constructorParam?: string;
+};
+
+/**
+ * A located function declaration (the first overload): its head and doc, plus the names that
+ * can carry `@param` defaults — the members of the selected parameter's type, or the
+ * parameter names when no parameter is selected.
+ */
+export type FunctionHead = PropHead & {
+  /** Documentable names, without the parameter prefix (`timeout`, not `opts.timeout`). */
+  params: string[];
+};
+
+/** Strategy used by inject/assert to find members in declaration text. */
+export interface PropLocator {
+  /** Members of the named interface/type alias (or class); empty when it is not found. */
+  listProps(text: string, typeName: string, options?: LocateOptions): PropHead[];
+  /** Members of a property's own object type (for recursive mode); empty when not an object type. */
+  listNestedProps(text: string, prop: PropHead): PropHead[];
+  /** The named function declaration; `param` selects an options parameter whose members are listed. */
+  findFunction(text: string, functionName: string, options?: { param?: string }): FunctionHead | undefined;
+}
+
+/**
+ * Where a value is being serialized: the declaration and the (dotted) property path.
+ * Passed to every {@link ValueSerializer} and {@link SerializerHook}.
+ */
+export type SerializeContext = {
+  interfaceName: string;
+  prop: string;
+  /** The configured target being processed (absent when the dts-ops are called directly). */
+  target?: TargetConfig;
+};
+
+/** Turns a runtime default into the literal text written after `@default`. */
+export type ValueSerializer = (value: unknown, ctx: SerializeContext) => string;
+
+/**
+ * A custom serializer consulted before the built-in rules, for the property value and every
+ * value nested in it. Return the literal text to write (used verbatim), or `undefined` to
+ * defer to the next hook and finally to the built-ins.
+ * @example
+ * (value) => value instanceof Duration ? `Duration.seconds(${value.seconds})` : undefined
+ */
+export type SerializerHook = (value: unknown, ctx: SerializeContext) => string | undefined;
+
 export type DTSEditResult = {
   updatedText: string;
+  /** Members whose doc was changed (inserted, replaced or pruned defaults). */
   updatedCount: number;
   missing: Array<{ interfaceName: string; prop: string }>;
+  /** Each member edit, with the documented literal before and after (absent when none / pruned). */
+  changes: Array<{ prop: string; before?: string; after?: string }>;
+  /** With `prune`: members whose stale `@default` was removed. */
+  pruned?: Array<{ interfaceName: string; prop: string }>;
 };
\ No newline at end of file
@@ -6,6 +6,13 @@ export function getRelativePath(base: string, pathAbs: string) {
   return path.relative(base, pathAbs) || '.';
 }
 
+/** 1-based line and column of a character offset in `text`. */
+export function offsetToPosition(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const lineStart = before.lastIndexOf('\n') + 1;
+  return { line: before.split('\n').length, column: offset - lineStart + 1 };
+}
+
 export function getByPath(obj: any, pathStr: string): any {
   const segments = pathStr.split('.');
   let current = obj;
@@ -16,6 +23,12 @@ export function getByPath(obj: any, pathStr: string): any {
   return current;
 }
 
+export function isPlainObject(val: unknown): val is Record<string, unknown> {
+  if (!val || typeof val !== 'object' || Array.isArray(val)) return false;
+  const proto = Object.getPrototypeOf(val);
+  return proto === Object.prototype || proto === null;
+}
+
 export function assertPlainObject(val: any, ctx: string) {
   if (!val || typeof val !== 'object' || Array.isArray(val)) {
     throw new SddError(
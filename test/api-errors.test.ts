@@ -1,8 +1,9 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import { inject, assert } from '../src/api.js';
+import { inject, assert, check, doctor, init, list } from '../src/api.js';
 import type { DocDefaultsConfig } from '../src/types.js';
+import type { SddError } from '../src/errors.js';
 import { createTempDirectory, write } from './utils.js';
 
 
@@ -179,6 +180,592 @@ describe('index (errors & branches)', () => {
     expect(text).toMatch(/@default "nested-bar"/);
   });
 
+  it('injects and asserts nested members when the target is recursive', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const DEFAULTS = { retry: { backoffMs: 200 } }`);
+    await write(dts, `export interface Example {\n  retry?: {\n    backoffMs?: number;\n  };\n}\n`);
+
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      targets: [{
+        name: 'X',
+        types: 'src/x.ts',
+        dts: 'types.d.ts',
+        interface: 'Example',
+        member: 'DEFAULTS',
+        recursive: true,
+      }],
+    };
+
+    const configFile = path.join(tempDirPath, 'recursive.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    const text = await fs.readFile(dts, 'utf8');
+    expect(text).toMatch(/@default 200\s*\*\/\s*backoffMs\?: number;/);
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).resolves.not.toThrow();
+  });
+
+  it('documents class fields and constructor options for class targets', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const DEFAULTS = { timeout: 5000, verbose: false }`);
+    await write(dts, `export declare class Client {\n  timeout: number;\n  constructor(options?: {\n    verbose?: boolean;\n  });\n}\n`);
+
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      targets: [{
+        name: 'X',
+        types: 'src/x.ts',
+        dts: 'types.d.ts',
+        interface: 'Client',
+        kind: 'class',
+        constructorParam: 'options',
+        member: 'DEFAULTS',
+      }],
+    };
+    const configFile = path.join(tempDirPath, 'class.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    const text = await fs.readFile(dts, 'utf8');
+    expect(text).toMatch(/@default 5000\s*\*\/\s*timeout: number;/);
+    expect(text).toMatch(/@default false\s*\*\/\s*verbose\?: boolean;/);
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).resolves.not.toThrow();
+  });
+
+  it('writes @param defaults for function targets', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const CLIENT_DEFAULTS = { timeout: 30000 }`);
+    await write(dts, `/**\n * @param opts.timeout - Request timeout\n */\nexport declare function createClient(opts?: {\n    timeout?: number;\n}): void;\n`);
+
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      targets: [{
+        name: 'X',
+        types: 'src/x.ts',
+        dts: 'types.d.ts',
+        interface: 'createClient',
+        kind: 'function',
+        param: 'opts',
+        member: 'CLIENT_DEFAULTS',
+      }],
+    };
+    const configFile = path.join(tempDirPath, 'function.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    const text = await fs.readFile(dts, 'utf8');
+    expect(text).toContain('@param opts.timeout - Request timeout (default: 30000)');
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).resolves.not.toThrow();
+
+    config.targets[0].interface = 'missingFn';
+    await write(configFile, JSON.stringify(config));
+    await expect(inject(configFile, { repoRoot: tempDirPath, quiet: true })).rejects.toMatchObject({
+      code: 'INTERFACE_NOT_FOUND',
+      message: expect.stringContaining('Function "missingFn" not found'),
+    });
+  });
+
+  it('rejects constructorParam on non-class targets', async () => {
+    const configFile = path.join(tempDirPath, 'bad-class.config.json');
+    await write(configFile, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [{ types: 'src/x.ts', interface: 'Client', member: 'DEFAULTS', constructorParam: 'options' }],
+    }));
+    await expect(inject(configFile, { repoRoot: tempDirPath })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+
+  it('compares literals structurally unless strict is set in config or options', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const DEFAULTS = { opts: { a: 1 } }`);
+    await write(dts, `export interface Example {\n  /** @default { a: 1 } */\n  opts?: object;\n}\n`);
+
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    };
+    const configFile = path.join(tempDirPath, 'strict.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).resolves.not.toThrow();
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true, strict: true }))
+      .rejects.toMatchObject({ code: 'ASSERT_FAILED' });
+
+    await write(configFile, JSON.stringify({ ...config, strict: true }));
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).rejects.toMatchObject({ code: 'ASSERT_FAILED' });
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true, strict: false })).resolves.not.toThrow();
+  });
+
+  it('consults target and config serializers before the built-in rules', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `
+      class Duration { constructor(s) { this.s = s; } }
+      export const DEFAULTS = { timeout: new Duration(30), retry: { backoff: new Duration(2) }, onError: () => {} };
+    `);
+    await write(dts, `export interface Example {\n  timeout?: unknown;\n  retry?: object;\n  onError?: () => void;\n}\n`);
+    const configFile = path.join(tempDirPath, 'docdefaults.config.mjs');
+    await write(configFile, `export default {
+      defaults: 'constants.js',
+      serializers: [
+        (v) => v?.constructor?.name === 'Duration' ? 'Duration.seconds(' + v.s + ')' : undefined,
+        (v, ctx) => typeof v === 'function' ? '"handler for ' + ctx.target.name + '.' + ctx.prop + '"' : undefined,
+      ],
+      targets: [{
+        name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS',
+        serializers: [(v, ctx) => ctx.prop === 'timeout' ? 'Duration.seconds(30) // per target' : undefined],
+      }],
+    };`);
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    const text = await fs.readFile(dts, 'utf8');
+    expect(text).toContain('@default Duration.seconds(30) // per target\n');
+    expect(text).toContain('@default {"backoff":Duration.seconds(2)}\n');
+    expect(text).toContain('@default "handler for X.onError"\n');
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).resolves.not.toThrow();
+  });
+
+  it('rejects serializers that are not functions', async () => {
+    const configFile = path.join(tempDirPath, 'serializers.config.json');
+    await write(configFile, JSON.stringify({ defaults: 'constants.js', serializers: ['nope'], targets: [] }));
+    await expect(inject(configFile, { repoRoot: tempDirPath })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+
+  it('applies config overrides keyed by "Interface.prop"', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const DEFAULTS = { apiKey: "sk-123", transform: null, port: 80 }`);
+    await write(dts, `export interface Example {\n  apiKey?: string;\n  transform?: unknown;\n  port?: number;\n}\n`);
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      overrides: { 'Example.apiKey': false, 'Example.transform': 'computed at runtime', 'Other.port': false },
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    };
+    const configFile = path.join(tempDirPath, 'overrides.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    const text = await fs.readFile(dts, 'utf8');
+    expect(text).not.toContain('sk-123');
+    expect(text).toContain('@default computed at runtime\n');
+    expect(text).toContain('@default 80\n');
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).resolves.not.toThrow();
+
+    await write(configFile, JSON.stringify({ ...config, overrides: { 'Example.port': 80 } }));
+    await expect(inject(configFile, { repoRoot: tempDirPath })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+
+  it('reports coverage findings per target according to the configured policy', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const DEFAULTS = { a: 1 }`);
+    await write(dts, `export interface Example {\n  /** @default 1 */\n  a?: number;\n  /** @default 2 */\n  b?: number;\n  c?: number;\n}\n`);
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    };
+    const configFile = path.join(tempDirPath, 'coverage.config.json');
+
+    await write(configFile, JSON.stringify(config));
+    const plain = await assert(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(plain.targetResults[0]).toEqual({ name: 'X', interfaceName: 'Example', dtsPath: 'types.d.ts', file: 'dts', ok: true, missing: [], checked: ['a'] });
+
+    await write(configFile, JSON.stringify({ ...config, coverage: true }));
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).rejects.toMatchObject({ code: 'ASSERT_FAILED' });
+
+    await write(configFile, JSON.stringify({ ...config, coverage: { stale: 'warn', undocumented: 'warn' } }));
+    const warned = await assert(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(warned.targetResults[0].coverage).toEqual({ undocumented: ['c'], stale: [{ prop: 'b', found: '2' }] });
+
+    await write(configFile, JSON.stringify({ ...config, coverage: { stale: 'fail' } }));
+    await expect(assert(configFile, { repoRoot: tempDirPath })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+  });
+
+  it('prunes stale @default tags when prune is set in config or options', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    const original = `export interface Example {\n  /** @default 1 */\n  a?: number;\n  /** @default 2 */\n  b?: number;\n}\n`;
+    await write(constants, `export const DEFAULTS = { a: 1 }`);
+    await write(dts, original);
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    };
+    const configFile = path.join(tempDirPath, 'prune.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(await fs.readFile(dts, 'utf8')).toBe(original);
+
+    await expect(inject(configFile, { repoRoot: tempDirPath, quiet: true, prune: true })).resolves.toMatchObject({ updated: 1 });
+    expect(await fs.readFile(dts, 'utf8')).toBe(`export interface Example {\n  /** @default 1 */\n  a?: number;\n  b?: number;\n}\n`);
+
+    await write(dts, original);
+    await write(configFile, JSON.stringify({ ...config, prune: true }));
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(await fs.readFile(dts, 'utf8')).not.toContain('@default 2');
+  });
+
+  it('injects into and asserts the types source in source mode', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const source = path.join(tempDirPath, 'src', 'types.ts');
+    await write(constants, `export const DEFAULTS = { retries: 3, mode: "fast" }`);
+    await write(source, `export interface Example {\n  /**\n   * How often to retry\n   */\n  retries?: number;\n  mode?: string;\n}\n\nexport const helper = (x: number): number => x;\n`);
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      mode: 'source',
+      targets: [{ name: 'X', types: 'src/types.ts', interface: 'Example', member: 'DEFAULTS' }],
+    };
+    const configFile = path.join(tempDirPath, 'source.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).rejects.toMatchObject({ code: 'ASSERT_FAILED' });
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    const text = await fs.readFile(source, 'utf8');
+    expect(text).toContain('  /**\n   * How often to retry\n   * \n   * @default 3\n   */\n  retries?: number;');
+    expect(text).toContain('@default "fast"');
+    expect(text).toContain('export const helper = (x: number): number => x;');
+
+    const result = await assert(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(result.targetResults).toEqual([{ name: 'X', interfaceName: 'Example', dtsPath: 'src/types.ts', file: 'source', ok: true, missing: [], checked: ['retries', 'mode'] }]);
+
+    // "both" also needs the .d.ts
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true, mode: 'both' })).rejects.toMatchObject({ code: 'CLI_USAGE' });
+    await write(configFile, JSON.stringify({ ...config, targets: [{ ...config.targets[0], dts: 'types.d.ts', mode: 'both' }] }));
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).rejects.toMatchObject({ code: 'DTS_NOT_FOUND' });
+  });
+
+  it('returns per-file results from inject and attaches the assert result to ASSERT_FAILED', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const DEFAULTS = { a: 1, b: "x", gone: true }`);
+    await write(dts, `export interface Example {\n  /** @default 2 */\n  a?: number;\n  b?: string;\n}\n`);
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      label: 'demo',
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    };
+    const configFile = path.join(tempDirPath, 'results.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    const error = await assert(configFile, { repoRoot: tempDirPath, quiet: true }).catch((e: unknown) => e);
+    expect(error).toMatchObject({ code: 'ASSERT_FAILED' });
+    expect((error as SddError).details?.result).toEqual({
+      ok: false,
+      projectLabel: 'demo',
+      targetResults: [{
+        name: 'X',
+        interfaceName: 'Example',
+        dtsPath: 'types.d.ts',
+        file: 'dts',
+        ok: false,
+        missing: [
+          { prop: 'a', expected: '1', found: '2', line: 3, column: 3 },
+          { prop: 'b', expected: '"x"', found: undefined, line: 4, column: 3 },
+          { prop: 'gone', expected: 'true', found: undefined },
+        ],
+        checked: ['a', 'b', 'gone'],
+      }],
+    });
+
+    const result = await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(result).toEqual({
+      updated: 2,
+      projectLabel: 'demo',
+      targetResults: [{
+        name: 'X',
+        interfaceName: 'Example',
+        dtsPath: 'types.d.ts',
+        file: 'dts',
+        updated: 2,
+        changes: [{ prop: 'a', before: '2', after: '1' }, { prop: 'b', before: undefined, after: '"x"' }],
+        missing: [{ prop: 'gone' }],
+      }],
+    });
+    const again = await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(again.targetResults[0]).toMatchObject({ updated: 0, changes: [] });
+  });
+
+  it('dryRun returns one patch per file covering every target that edits it', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    const original = `export interface A {\n  a?: number;\n}\nexport interface B {\n  b?: number;\n}\n`;
+    await write(constants, `export const A_DEFAULTS = { a: 1 }; export const B_DEFAULTS = { b: 2 }`);
+    await write(dts, original);
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      targets: [
+        { name: 'A', types: 'src/x.ts', dts: 'types.d.ts', interface: 'A', member: 'A_DEFAULTS' },
+        { name: 'B', types: 'src/x.ts', dts: 'types.d.ts', interface: 'B', member: 'B_DEFAULTS' },
+      ],
+    };
+    const configFile = path.join(tempDirPath, 'dry.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    const { patch } = await inject(configFile, { repoRoot: tempDirPath, quiet: true, dryRun: true });
+    expect(await fs.readFile(dts, 'utf8')).toBe(original);
+    expect(patch).toBe([
+      'diff --git a/types.d.ts b/types.d.ts',
+      '--- a/types.d.ts',
+      '+++ b/types.d.ts',
+      '@@ -1,6 +1,12 @@',
+      ' export interface A {',
+      '+  /**',
+      '+   * @default 1',
+      '+   */',
+      '   a?: number;',
+      ' }',
+      ' export interface B {',
+      '+  /**',
+      '+   * @default 2',
+      '+   */',
+      '   b?: number;',
+      ' }',
+      '',
+    ].join('\n'));
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect((await inject(configFile, { repoRoot: tempDirPath, quiet: true, dryRun: true })).patch).toBe('');
+  });
+
+  it('check fails with the pending patch until inject has run, without writing', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    const original = `export interface A {\n  a?: number;\n}\n`;
+    await write(constants, `export const A_DEFAULTS = { a: 1 }`);
+    await write(dts, original);
+    const configFile = path.join(tempDirPath, 'check.config.json');
+    await write(configFile, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [{ name: 'A', types: 'src/x.ts', dts: 'types.d.ts', interface: 'A', member: 'A_DEFAULTS' }],
+    }));
+
+    const err = await check(configFile, { repoRoot: tempDirPath, silent: true }).catch((e: SddError) => e) as SddError;
+    expect(err.code).toBe('CHECK_FAILED');
+    expect(err.message).toContain('1 update(s) pending in types.d.ts');
+    expect(err.details?.result).toMatchObject({ updated: 1, patch: expect.stringContaining('+   * @default 1') });
+    expect(await fs.readFile(dts, 'utf8')).toBe(original);
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    await expect(check(configFile, { repoRoot: tempDirPath, silent: true })).resolves.toMatchObject({ updated: 0, patch: '' });
+  });
+
+  it('processes only the targets selected by label and rejects unknown labels', async () => {
+    await write(path.join(tempDirPath, 'constants.js'), `export const A_DEFAULTS = { a: 1 }; export const B_DEFAULTS = { b: 2 }`);
+    await write(path.join(tempDirPath, 'types.d.ts'), `export interface A {\n  a?: number;\n}\nexport interface B {\n  b?: number;\n}\n`);
+    const configFile = path.join(tempDirPath, 'only.config.json');
+    await write(configFile, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [
+        { name: 'first', types: 'src/x.ts', dts: 'types.d.ts', interface: 'A', member: 'A_DEFAULTS' },
+        { types: 'src/x.ts', dts: 'types.d.ts', interface: 'B', member: 'B_DEFAULTS' },
+      ],
+    }));
+
+    const result = await inject(configFile, { repoRoot: tempDirPath, quiet: true, targets: ['B'] });
+    expect(result.targetResults.map((r) => r.name)).toEqual(['B']);
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true, targets: ['B'] })).resolves.toMatchObject({ ok: true });
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true, targets: ['first'] })).rejects.toMatchObject({ code: 'ASSERT_FAILED' });
+    await expect(inject(configFile, { repoRoot: tempDirPath, quiet: true, targets: ['A'] })).rejects.toMatchObject({
+      code: 'CLI_USAGE',
+      message: expect.stringContaining('unknown target(s): A'),
+    });
+  });
+
+  it('lists how each target resolves, with keys vs members and missing files', async () => {
+    await write(path.join(tempDirPath, 'constants.js'), `export const A_DEFAULTS = { a: 1, extra: 2 }; export const B_DEFAULTS = { b: 1 }`);
+    await write(path.join(tempDirPath, 'types.d.ts'), `export interface A {\n  a?: number;\n  other?: string;\n}\n`);
+    const configFile = path.join(tempDirPath, 'list.config.json');
+    await write(configFile, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [
+        { name: 'A', types: 'src/x.ts', dts: 'types.d.ts', interface: 'A', member: 'A_DEFAULTS' },
+        { name: 'B', types: 'src/x.ts', dts: 'missing.d.ts', interface: 'B', member: 'B_DEFAULTS' },
+      ],
+    }));
+
+    const result = await list(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(result).toMatchObject({ configPath: 'list.config.json', tsMode: 'auto', defaults: [{ path: 'constants.js', loadedPath: 'constants.js', loader: 'js' }] });
+    expect(result.targets[0]).toMatchObject({
+      name: 'A', kind: 'interface', defaults: 'constants.js', member: 'A_DEFAULTS', mode: 'dts',
+      files: [{ file: 'dts', path: 'types.d.ts', inferred: false, exists: true }],
+      keys: ['a', 'extra'], members: ['a', 'other'],
+      matched: ['a'], keysWithoutMember: ['extra'], membersWithoutKey: ['other'], problems: [],
+    });
+    expect(result.targets[1]).toMatchObject({ name: 'B', keys: ['b'], files: [{ path: 'missing.d.ts', exists: false }] });
+    expect(result.targets[1].members).toBeUndefined();
+    expect(result.targets[1].problems.join('\n')).toContain('missing.d.ts');
+
+    await expect(list(configFile, { repoRoot: tempDirPath, quiet: true, targets: ['B'] })).resolves.toMatchObject({ targets: [{ name: 'B' }] });
+  });
+
+  it('doctor reports a CommonJS module under "type": "module" and a missing .d.ts, without writing', async () => {
+    await write(path.join(tempDirPath, 'package.json'), JSON.stringify({ type: 'module' }));
+    await write(path.join(tempDirPath, 'constants.js'), `module.exports = { DEFAULTS: { a: 1 } };`);
+    const configFile = path.join(tempDirPath, 'doctor.config.json');
+    await write(configFile, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    }));
+
+    const failing = await doctor(configFile, { repoRoot: tempDirPath });
+    expect(failing.ok).toBe(false);
+    const byId = (id: string) => failing.checks.find((c) => c.id === id);
+    expect(byId('config')).toMatchObject({ status: 'pass' });
+    expect(byId('package-type')).toMatchObject({ status: 'fail', message: expect.stringContaining('uses CommonJS syntax but is loaded as ESM'), fix: expect.stringContaining('.cjs') });
+    expect(byId('target')).toMatchObject({ target: 'X', status: 'fail', message: '.d.ts not found: types.d.ts' });
+    await expect(fs.access(path.join(tempDirPath, 'types.d.ts'))).rejects.toThrow();
+
+    await fs.rename(path.join(tempDirPath, 'constants.js'), path.join(tempDirPath, 'constants.cjs'));
+    await write(configFile, JSON.stringify({
+      defaults: 'constants.cjs',
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    }));
+    await write(path.join(tempDirPath, 'types.d.ts'), `export interface Example {\n  a?: number;\n}\n`);
+    const passing = await doctor(configFile, { repoRoot: tempDirPath });
+    expect(passing.checks.map((c) => [c.id, c.status])).toEqual([
+      ['config', 'pass'], ['tsconfig', 'pass'], ['package-type', 'pass'], ['tsx', 'pass'], ['defaults', 'pass'], ['target', 'pass'],
+    ]);
+    expect(passing.ok).toBe(true);
+  });
+
+  it('doctor reports a missing config as a failed check', async () => {
+    await expect(doctor(undefined, { repoRoot: tempDirPath })).resolves.toMatchObject({
+      ok: false,
+      checks: [{ id: 'config', status: 'fail', fix: expect.stringContaining('init') }],
+    });
+  });
+
+  it('loads per-target defaults modules lazily, once per path, falling back to the config one', async () => {
+    await write(path.join(tempDirPath, 'net/defaults.js'), `export const NET_DEFAULTS = { retries: 3 }; export const PROXY_DEFAULTS = { port: 8080 };`);
+    await write(path.join(tempDirPath, 'ui/defaults.js'), `export const UI_DEFAULTS = { theme: 'dark' };`);
+    await write(path.join(tempDirPath, 'types.d.ts'), [
+      'export interface Net {\n  retries?: number;\n}',
+      'export interface Proxy {\n  port?: number;\n}',
+      'export interface Ui {\n  theme?: string;\n}',
+      'export interface Legacy {\n  a?: number;\n}',
+      '',
+    ].join('\n'));
+    const configFile = path.join(tempDirPath, 'modules.config.json');
+    await write(configFile, JSON.stringify({
+      defaults: 'missing.js',
+      targets: [
+        { types: 'src/x.ts', dts: 'types.d.ts', interface: 'Net', defaults: 'net/defaults.js', member: 'NET_DEFAULTS' },
+        { types: 'src/x.ts', dts: 'types.d.ts', interface: 'Proxy', defaults: 'net/defaults.js', member: 'PROXY_DEFAULTS' },
+        { types: 'src/x.ts', dts: 'types.d.ts', interface: 'Ui', defaults: 'ui/defaults.js', member: 'UI_DEFAULTS' },
+        { types: 'src/x.ts', dts: 'types.d.ts', interface: 'Legacy', member: 'DEFAULTS' },
+      ],
+    }));
+
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    try {
+      // the config's module is only needed by Legacy, which is not selected
+      const result = await inject(configFile, { repoRoot: tempDirPath, debugPaths: true, targets: ['Net', 'Proxy', 'Ui'] });
+      expect(result.updated).toBe(3);
+      const loads = log.mock.calls.map(([line]) => String(line)).filter((line) => line.includes('Loading JS module'));
+      expect(loads).toEqual([expect.stringContaining('net/defaults.js'), expect.stringContaining('ui/defaults.js')]);
+    } finally {
+      log.mockRestore();
+    }
+    const dts = await fs.readFile(path.join(tempDirPath, 'types.d.ts'), 'utf8');
+    expect(dts).toContain('@default 3');
+    expect(dts).toContain('@default 8080');
+    expect(dts).toContain('@default "dark"');
+
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true, targets: ['Ui'] })).resolves.toMatchObject({ ok: true });
+    const listed = await list(configFile, { repoRoot: tempDirPath, quiet: true });
+    expect(listed.defaults.map((d) => [d.path, d.loader ?? 'error'])).toEqual([['net/defaults.js', 'js'], ['ui/defaults.js', 'js'], ['missing.js', 'error']]);
+    expect(listed.targets.map((t) => t.defaults)).toEqual(['net/defaults.js', 'net/defaults.js', 'ui/defaults.js', 'missing.js']);
+  });
+
+  it('requires a top-level defaults module unless every target sets its own', async () => {
+    const configFile = path.join(tempDirPath, 'nodefaults.config.json');
+    await write(path.join(tempDirPath, 'constants.js'), `export const A_DEFAULTS = { a: 1 };`);
+    await write(path.join(tempDirPath, 'types.d.ts'), `export interface A {\n  a?: number;\n}\n`);
+    const target = { types: 'src/x.ts', dts: 'types.d.ts', interface: 'A', member: 'A_DEFAULTS' };
+
+    await write(configFile, JSON.stringify({ targets: [target] }));
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).rejects.toMatchObject({
+      code: 'INVALID_CONFIG',
+      message: expect.stringContaining('unless every target sets its own'),
+    });
+    await write(configFile, JSON.stringify({ targets: [] }));
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+
+    await write(configFile, JSON.stringify({ targets: [{ ...target, defaults: 'constants.js' }] }));
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).resolves.toMatchObject({ ok: true });
+  });
+
+  it('init gives the targets of other defaults modules their own "defaults"', async () => {
+    await write(path.join(tempDirPath, 'src/net/defaults.ts'), `export const NET_DEFAULTS = { retries: 3 };\nexport const PROXY_DEFAULTS = { port: 8080 };\n`);
+    await write(path.join(tempDirPath, 'src/ui/defaults.ts'), `export const UI_DEFAULTS = { theme: 'dark' };\n`);
+    await write(path.join(tempDirPath, 'src/types.ts'), [
+      'export interface NetOptions {\n  retries?: number;\n}',
+      'export interface ProxyOptions {\n  port?: number;\n}',
+      'export interface UiOptions {\n  theme?: string;\n}',
+      '',
+    ].join('\n'));
+
+    const result = await init({ repoRoot: tempDirPath, dryRun: true, quiet: true, format: 'json' });
+    expect(result.skipped).toEqual([]);
+    expect(result.config).toEqual({
+      defaults: 'src/net/defaults.ts',
+      targets: [
+        { name: 'NetOptions', types: 'src/types.ts', interface: 'NetOptions', member: 'NET_DEFAULTS' },
+        { name: 'ProxyOptions', types: 'src/types.ts', interface: 'ProxyOptions', member: 'PROXY_DEFAULTS' },
+        { name: 'UiOptions', types: 'src/types.ts', interface: 'UiOptions', defaults: 'src/ui/defaults.ts', member: 'UI_DEFAULTS' },
+      ],
+    });
+  });
+
+  it('fails with TYPESCRIPT_NOT_INSTALLED when the ast locator cannot resolve typescript', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const DEFAULTS = { foo: "bar" }`);
+    await write(dts, `export interface Example { foo?: string; }`);
+
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      locator: 'ast',
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    };
+    const configFile = path.join(tempDirPath, 'ast.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await expect(inject(configFile, { repoRoot: tempDirPath })).rejects.toMatchObject({ code: 'TYPESCRIPT_NOT_INSTALLED' });
+  });
+
+  it('uses the typescript compiler from the target project for the ast locator', async () => {
+    const constants = path.join(tempDirPath, 'constants.js');
+    const dts = path.join(tempDirPath, 'types.d.ts');
+    await write(constants, `export const DEFAULTS = { handler: null }`);
+    await write(dts, `export interface Example {\n  handler?: (\n    event: string,\n  ) => void;\n}\n`);
+    await fs.mkdir(path.join(tempDirPath, 'node_modules'), { recursive: true });
+    await fs.symlink(
+      path.dirname(require.resolve('typescript/package.json')),
+      path.join(tempDirPath, 'node_modules', 'typescript'),
+      'dir',
+    );
+
+    const config: DocDefaultsConfig = {
+      defaults: 'constants.js',
+      locator: 'ast',
+      targets: [{ name: 'X', types: 'src/x.ts', dts: 'types.d.ts', interface: 'Example', member: 'DEFAULTS' }],
+    };
+    const configFile = path.join(tempDirPath, 'ast.config.json');
+    await write(configFile, JSON.stringify(config));
+
+    await inject(configFile, { repoRoot: tempDirPath, quiet: true });
+    const text = await fs.readFile(dts, 'utf8');
+    expect(text).toMatch(/@default null\s*\*\/\s*handler\?: \(/);
+    await expect(assert(configFile, { repoRoot: tempDirPath, quiet: true })).resolves.not.toThrow();
+  });
+
   it('accepts config targets without optional name field', async () => {
     const constants = path.join(tempDirPath, 'constants.js');
     const dts = path.join(tempDirPath, 'types.d.ts');
@@ -120,7 +120,152 @@ describe('docdefaults CLI (e2e)', () => {
 
     expect(code).toBe(0);
     expect(stdout).toMatch(/dryRun/i);
+    expect(stdout).toContain('(dryRun):\ndiff --git a/types.d.ts b/types.d.ts\n--- a/types.d.ts\n+++ b/types.d.ts\n@@ -1,19 +1,22 @@');
+    expect(stdout).toContain('-   * @defaultValue {@link DEFAULTS.foo}\n+   * \n+   * @default "bar"');
+    expect(stdout).not.toContain('\x1b[');
     expect(after).toBe(before); // unchanged
+
+    const colored = await runCli(['inject', '--config', configPath, '--dry', '--color'], { tempDirPath });
+    expect(colored.stdout).toContain('\x1b[32m+   * @default "bar"\x1b[0m');
+  });
+
+  it('--diff-output writes a patch that git apply accepts', async () => {
+    const configPath = path.join(tempDirPath, 'docdefaults.config.json');
+    await write(configPath, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [{
+        name: 'Example',
+        types: 'src/options.ts',
+        dts: 'types.d.ts',
+        interface: 'ExampleOptions',
+        member: 'DEFAULTS',
+      }],
+    }));
+
+    const before = await read(dts);
+    const { code } = await runCli(['inject', '--config', configPath, '--diff-output', 'defaults.patch', '--quiet'], { tempDirPath });
+    expect(code).toBe(0);
+    expect(await read(dts)).toBe(before);
+
+    await new Promise<void>((resolve, reject) => {
+      execFile('git', ['apply', 'defaults.patch'], { cwd: tempDirPath }, (err) => (err ? reject(err) : resolve()));
+    });
+    await runCli(['inject', '--config', configPath], { tempDirPath });
+    const applied = await read(dts);
+    expect(applied).toContain('@default 42');
+    const again = await runCli(['inject', '--config', configPath, '--diff-output', 'defaults.patch'], { tempDirPath });
+    expect(again.code).toBe(0);
+    expect(await read(path.join(tempDirPath, 'defaults.patch'))).toBe('');
+  });
+
+  it('check prints the diff and the fix command, and passes once injected', async () => {
+    const configPath = path.join(tempDirPath, 'docdefaults.config.json');
+    await write(configPath, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [{
+        name: 'Example',
+        types: 'src/options.ts',
+        dts: 'types.d.ts',
+        interface: 'ExampleOptions',
+        member: 'DEFAULTS',
+      }],
+    }));
+
+    const before = await read(dts);
+    const failed = await runCli(['check', '--config', configPath, '--quiet', '--no-color'], { tempDirPath });
+    expect(failed.code).toBe(1);
+    expect(failed.stdout).toContain('+   * @default 42');
+    expect(failed.stderr).toContain('[sync-doc-defaults] check failed');
+    expect(failed.stderr).not.toContain('[sync-doc-defaults] [sync-doc-defaults]');
+    expect(failed.stderr).toContain(`To fix, run: sync-doc-defaults inject --config ${configPath}`);
+    expect(await read(dts)).toBe(before);
+
+    await runCli(['inject', '--config', configPath], { tempDirPath });
+    const passed = await runCli(['check', '--config', configPath], { tempDirPath });
+    expect(passed.code).toBe(0);
+  });
+
+  it('init scaffolds a config that inject and assert can use, and refuses to overwrite it', async () => {
+    await write(path.join(tempDirPath, 'tsconfig.json'), JSON.stringify({ compilerOptions: { rootDir: 'src', outDir: 'dist' } }));
+    await write(path.join(tempDirPath, 'src/constants.ts'), `export const CLIENT_DEFAULTS = { timeout: 1000, name: 'x' } as const;\n`);
+    await write(path.join(tempDirPath, 'src/types.ts'), `export interface ClientOptions {\n  timeout?: number;\n  name?: string;\n  other?: boolean;\n}\n`);
+    // stand-in for the build output
+    await write(path.join(tempDirPath, 'dist/constants.js'), `export const CLIENT_DEFAULTS = { timeout: 1000, name: 'x' };\n`);
+    await write(path.join(tempDirPath, 'dist/types.d.ts'), `export interface ClientOptions {\n  timeout?: number;\n  name?: string;\n  other?: boolean;\n}\n`);
+
+    const created = await runCli(['init', '--config-format', 'json'], { tempDirPath });
+    expect(created.code).toBe(0);
+    expect(created.stdout).toContain('wrote docdefaults.config.json with 1 target(s)');
+    expect(JSON.parse(await read(path.join(tempDirPath, 'docdefaults.config.json')))).toEqual({
+      defaults: 'src/constants.ts',
+      targets: [{ name: 'ClientOptions', types: 'src/types.ts', dts: 'dist/types.d.ts', interface: 'ClientOptions', member: 'CLIENT_DEFAULTS' }],
+    });
+
+    expect((await runCli(['inject'], { tempDirPath })).code).toBe(0);
+    expect(await read(path.join(tempDirPath, 'dist/types.d.ts'))).toContain('@default 1000');
+    expect((await runCli(['assert'], { tempDirPath })).code).toBe(0);
+
+    const again = await runCli(['init'], { tempDirPath });
+    expect(again.code).toBe(5);
+    expect(again.stderr).toContain('docdefaults.config.json already exists (use --force to overwrite it)');
+    expect((await runCli(['init', '--force'], { tempDirPath })).code).toBe(0);
+    expect(await read(path.join(tempDirPath, 'docdefaults.config.mjs'))).toContain('export default {');
+  });
+
+  it('list shows the inferred .d.ts and the built module actually loaded', async () => {
+    await write(path.join(tempDirPath, 'tsconfig.json'), JSON.stringify({ compilerOptions: { rootDir: 'src', outDir: 'dist', declarationDir: 'dist' } }));
+    await write(path.join(tempDirPath, 'src/constants.ts'), `export const DEFAULTS = { a: 1 };\n`);
+    await write(path.join(tempDirPath, 'dist/constants.js'), `export const DEFAULTS = { a: 1, b: 2 };\n`);
+    await write(path.join(tempDirPath, 'dist/types.d.ts'), `export interface Options {\n  a?: number;\n}\n`);
+    await write(path.join(tempDirPath, 'docdefaults.config.json'), JSON.stringify({
+      defaults: 'src/constants.ts',
+      targets: [{ types: 'src/types.ts', interface: 'Options', member: 'DEFAULTS' }],
+    }));
+
+    const json = await runCli(['list', '--format', 'json'], { tempDirPath });
+    expect(json.code).toBe(0);
+    expect(JSON.parse(json.stdout)).toMatchObject({
+      command: 'list',
+      tsconfig: 'tsconfig.json',
+      rootDir: 'src',
+      outDir: 'dist',
+      defaults: [{ path: 'src/constants.ts', loadedPath: 'dist/constants.js', loader: 'built-js' }],
+      targets: [{
+        name: 'Options',
+        files: [{ file: 'dts', path: 'dist/types.d.ts', inferred: true, exists: true }],
+        matched: ['a'],
+        keysWithoutMember: ['b'],
+      }],
+    });
+
+    const text = await runCli(['explain', '--no-color'], { tempDirPath });
+    expect(text.code).toBe(0);
+    expect(text.stdout).toContain('dist/constants.js (built-js)');
+    expect((await runCli(['list', '--format', 'sarif'], { tempDirPath })).code).toBe(1);
+  });
+
+  it('doctor flags extensionless ESM imports in the built JS and exits 1 until fixed', async () => {
+    await write(path.join(tempDirPath, 'package.json'), JSON.stringify({ type: 'module' }));
+    await write(path.join(tempDirPath, 'tsconfig.json'), JSON.stringify({ compilerOptions: { rootDir: 'src', outDir: 'dist', declarationDir: 'dist' } }));
+    await write(path.join(tempDirPath, 'src/constants.ts'), `export const DEFAULTS = { a: 1 };\n`);
+    await write(path.join(tempDirPath, 'dist/constants.js'), `import { a } from './a';\nexport const DEFAULTS = { a };\n`);
+    await write(path.join(tempDirPath, 'dist/a.js'), `export const a = 1;\n`);
+    await write(path.join(tempDirPath, 'dist/types.d.ts'), `export interface Options {\n  a?: number;\n}\n`);
+    await write(path.join(tempDirPath, 'docdefaults.config.json'), JSON.stringify({
+      defaults: 'src/constants.ts',
+      targets: [{ types: 'src/types.ts', interface: 'Options', member: 'DEFAULTS' }],
+    }));
+
+    const failing = await runCli(['doctor', '--no-color'], { tempDirPath });
+    expect(failing.code).toBe(1);
+    expect(failing.stdout).toMatch(/FAIL {2}esm-imports +relative import\(s\) without an extension: \.\/a in dist\/constants\.js/);
+    expect(failing.stdout).toContain('fix: Add ".js" to relative imports');
+
+    await write(path.join(tempDirPath, 'dist/constants.js'), `import { a } from './a.js';\nexport const DEFAULTS = { a };\n`);
+    const passing = await runCli(['doctor', '--format', 'json'], { tempDirPath });
+    expect(passing.code).toBe(0);
+    expect(JSON.parse(passing.stdout)).toMatchObject({ command: 'doctor', ok: true });
+    expect(await read(path.join(tempDirPath, 'dist/types.d.ts'))).not.toContain('@default');
   });
 
   it('--quiet suppresses normal logs but not errors', async () => {
@@ -192,4 +337,84 @@ describe('docdefaults CLI (e2e)', () => {
     const result = await runCli(['assert', '--config', configPath], { tempDirPath });
     expect(result.code).toBe(0);
   });
+
+  it('--format json prints one report document and no log lines', async () => {
+    const configPath = path.join(tempDirPath, 'sdd.json');
+    await write(configPath, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [{
+        name: 'Example',
+        types: 'src/options.ts',
+        dts: 'types.d.ts',
+        interface: 'ExampleOptions',
+        member: 'DEFAULTS',
+      }],
+    }));
+
+    const failed = await runCli(['assert', '--config', configPath, '--format', 'json'], { tempDirPath });
+    expect(failed.code).toBe(1);
+    expect(failed.stderr).toBe('');
+    const report = JSON.parse(failed.stdout);
+    expect(report).toMatchObject({
+      version: 1,
+      command: 'assert',
+      ok: false,
+      exitCode: 1,
+      error: { code: 'ASSERT_FAILED' },
+      targets: [{ name: 'Example', dtsPath: 'types.d.ts', ok: false }],
+    });
+    expect(report.targets[0].missing).toHaveLength(3);
+
+    const injected = await runCli(['inject', '--config', configPath, '--format', 'ndjson'], { tempDirPath });
+    expect(injected.code).toBe(0);
+    const lines = injected.stdout.trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ type: 'target', command: 'inject', updated: 3 });
+    expect(lines[1]).toMatchObject({ type: 'summary', ok: true, exitCode: 0, updated: 3 });
+
+    // no discoverable config
+    const missing = await runCli(['assert', '--format', 'json'], { tempDirPath });
+    expect(missing.code).toBe(2);
+    expect(JSON.parse(missing.stdout)).toMatchObject({ ok: false, exitCode: 2, error: { code: 'CONFIG_NOT_FOUND' } });
+  });
+
+  it('--format github annotates drifted members and --output writes SARIF and JUnit reports', async () => {
+    const configPath = path.join(tempDirPath, 'sdd.json');
+    await write(configPath, JSON.stringify({
+      defaults: 'constants.js',
+      targets: [{
+        name: 'Example',
+        types: 'src/options.ts',
+        dts: 'types.d.ts',
+        interface: 'ExampleOptions',
+        member: 'DEFAULTS',
+      }],
+    }));
+
+    const github = await runCli(['assert', '--config', configPath, '--format', 'github'], { tempDirPath });
+    expect(github.code).toBe(1);
+    expect(github.stdout.trim().split('\n')).toEqual([
+      '::error file=types.d.ts,line=6,col=3,title=sync-doc-defaults default-mismatch::Example: ExampleOptions.foo expected @default "bar" (found {@link DEFAULTS.foo})',
+      '::error file=types.d.ts,line=12,col=3,title=sync-doc-defaults default-mismatch::Example: ExampleOptions.count expected @default 42 (found {@link DEFAULTS.count})',
+      '::error file=types.d.ts,line=18,col=3,title=sync-doc-defaults default-mismatch::Example: ExampleOptions.enabled expected @default true (found {@link DEFAULTS.enabled})',
+    ]);
+
+    const sarifPath = path.join(tempDirPath, 'reports/sdd.sarif');
+    const sarif = await runCli(['assert', '--config', configPath, '--format', 'sarif', '--output', sarifPath], { tempDirPath });
+    expect(sarif.code).toBe(1);
+    expect(sarif.stdout).toBe('');
+    const log = JSON.parse(await read(sarifPath));
+    expect(log.runs[0].results.map((r: any) => r.locations[0].physicalLocation.region.startLine)).toEqual([6, 12, 18]);
+
+    const junitPath = path.join(tempDirPath, 'report.xml');
+    const junit = await runCli(['assert', '--config', configPath, '--reporter', 'junit', '--output', junitPath], { tempDirPath });
+    expect(junit.code).toBe(1);
+    const xml = await read(junitPath);
+    expect(xml).toContain('<testsuite name="Example (types.d.ts)" tests="3" failures="3" errors="0" skipped="0">');
+    expect(xml).toContain('<testcase name="count" classname="ExampleOptions" file="types.d.ts" line="12">');
+
+    const usage = await runCli(['assert', '--config', configPath, '--output', sarifPath], { tempDirPath });
+    expect(usage.code).toBe(1);
+    expect(usage.stderr).toContain('--output requires a machine-readable --format');
+  });
 });
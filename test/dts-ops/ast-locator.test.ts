@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import { createAstLocator } from '../../src/dts-ops/ast-locator.js';
+import { findFunction, listInterfaceProps } from '../../src/dts-ops/locator.js';
+import { injectDefaultsIntoDts } from '../../src/dts-ops/inject.js';
+import { assertDefaultsInDts } from '../../src/dts-ops/assert.js';
+
+
+const locator = createAstLocator(ts);
+
+const TRICKY = `
+export interface Tricky {
+  /** Multi-line type */
+  handler?: (
+    event: string,
+  ) => void;
+
+  /** Method signature */
+  format?(value: number): string;
+
+  /** Comment between name and colon */
+  spaced /* the colon is below */ ?:
+    number;
+
+  /** Braces and semicolons inside strings */
+  pattern?: "{;}";
+
+  [key: string]: unknown;
+
+  ["computed-key"]?: boolean;
+
+  // line comment doc
+  legacy?: string;
+
+  /* plain block comment, not a doc */
+  plain?: number;
+}
+`;
+
+describe('ast locator', () => {
+  it('finds member shapes the regex locator misses', () => {
+    const names = locator.listProps(TRICKY, 'Tricky').map(p => p.name);
+    expect(names).toEqual(['handler', 'format', 'spaced', 'pattern', 'computed-key', 'legacy', 'plain']);
+
+    const regexNames = listInterfaceProps(TRICKY, 'Tricky').map(p => p.name);
+    expect(regexNames).not.toContain('format');
+    expect(regexNames).not.toContain('computed-key');
+  });
+
+  it('reports exact head offsets, indent and JSDoc ranges', () => {
+    const props = locator.listProps(TRICKY, 'Tricky');
+    const handler = props.find(p => p.name === 'handler')!;
+    expect(TRICKY.slice(handler.headStart).startsWith('handler?: (')).toBe(true);
+    expect(handler.indent).toBe('  ');
+    expect(handler.doc!.text).toBe('/** Multi-line type */');
+    expect(TRICKY.slice(...handler.doc!.range)).toBe('  /** Multi-line type */');
+
+    const legacy = props.find(p => p.name === 'legacy')!;
+    expect(legacy.doc!.text).toBe('// line comment doc');
+
+    const plain = props.find(p => p.name === 'plain')!;
+    expect(plain.doc).toEqual({ range: [plain.headStart, plain.headStart], text: '' });
+  });
+
+  it('locates type alias literals and nested members', () => {
+    const dts = `
+export interface RetryOptions { attempts?: number; }
+export type Client = Base & {
+  retry?: { backoffMs?: number; };
+  policy?: RetryOptions | undefined;
+};
+`;
+    const props = locator.listProps(dts, 'Client');
+    expect(props.map(p => p.name)).toEqual(['retry', 'policy']);
+    expect(locator.listNestedProps(dts, props[0]).map(p => p.name)).toEqual(['backoffMs']);
+    expect(locator.listNestedProps(dts, props[1]).map(p => p.name)).toEqual(['attempts']);
+  });
+
+  it('drives inject/assert and stays idempotent', () => {
+    const defaults = { handler: null, format: 'fmt', spaced: 2, pattern: '{;}', 'computed-key': true, legacy: 'l', plain: 1 };
+    const result = injectDefaultsIntoDts({
+      dtsText: TRICKY,
+      interfaceName: 'Tricky',
+      defaults,
+      preferredTag: 'default',
+      locator,
+    });
+    expect(result.missing).toEqual([]);
+    expect(result.updatedCount).toBe(7);
+
+    const text = result.updatedText;
+    expect(text).toMatch(/Multi-line type\s*\*\s*\* @default null\s*\*\/\n {2}handler\?: \(/);
+    expect(text).toMatch(/ {3}\* line comment doc\n {3}\* ?\n {3}\* @default "l"\n {3}\*\/\n {2}legacy\?: string;/);
+    expect(text).toMatch(/plain block comment, not a doc \*\/\n {2}\/\*\*\n {3}\* @default 1\n {3}\*\/\n {2}plain\?: number;/);
+    expect(ts.createSourceFile('x.d.ts', text, ts.ScriptTarget.Latest).statements).toHaveLength(1);
+
+    const again = injectDefaultsIntoDts({ dtsText: text, interfaceName: 'Tricky', defaults, preferredTag: 'default', locator });
+    expect(again.updatedCount).toBe(0);
+
+    expect(assertDefaultsInDts({ dtsText: text, interfaceName: 'Tricky', defaults, locator }).ok).toBe(true);
+  });
+
+  it('stays idempotent on a one-line interface and leaves a trailing line comment alone', () => {
+    const dts = 'export interface Net { host?: string; // host note\n  port?: number; }\n';
+    const defaults = { host: 'localhost', port: 80 };
+    const first = injectDefaultsIntoDts({ dtsText: dts, interfaceName: 'Net', defaults, preferredTag: 'default', locator });
+    expect(first.updatedCount).toBe(2);
+    expect(first.updatedText).toContain('// host note\n  /**\n   * @default 80\n');
+
+    const again = injectDefaultsIntoDts({ dtsText: first.updatedText, interfaceName: 'Net', defaults, preferredTag: 'default', locator });
+    expect(again.updatedCount).toBe(0);
+    expect(again.updatedText).toBe(first.updatedText);
+    expect(first.updatedText.match(/@default "localhost"/g)).toHaveLength(1);
+    expect(assertDefaultsInDts({ dtsText: first.updatedText, interfaceName: 'Net', defaults, locator }).ok).toBe(true);
+  });
+
+  it('finds a doc written on the same line as the opening brace', () => {
+    const dts = 'export interface Net { /** @default "localhost" */ host?: string; }\n';
+    const [host] = locator.listProps(dts, 'Net');
+    expect(host.doc!.text).toBe('/** @default "localhost" */');
+    expect(assertDefaultsInDts({ dtsText: dts, interfaceName: 'Net', defaults: { host: 'localhost' }, locator }).ok).toBe(true);
+    expect(injectDefaultsIntoDts({ dtsText: dts, interfaceName: 'Net', defaults: { host: 'localhost' }, preferredTag: 'default', locator }).updatedCount).toBe(0);
+  });
+
+  it('does not take a block trailing the previous member as the next one\'s doc', () => {
+    const dts = 'interface Foo {\n  a: string; /** note for a */\n  b: number;\n}\n';
+    const b = locator.listProps(dts, 'Foo').find(p => p.name === 'b')!;
+    expect(b.doc).toEqual({ range: [b.headStart, b.headStart], text: '' });
+
+    const sameLine = 'interface Foo { a: string; /** doc for b */ b: number; }\n';
+    expect(locator.listProps(sameLine, 'Foo').find(p => p.name === 'b')!.doc!.text).toBe('/** doc for b */');
+  });
+});
+
+describe('ast locator - merged and namespaced declarations', () => {
+  const NAMESPACED = `
+export interface Options { top?: string; }
+declare namespace Foo {
+  interface Options { inFoo?: number; }
+}
+declare namespace Foo.Deep {
+  interface Options { deep?: boolean; }
+}
+declare module "x" {
+  interface Options { fromModule?: string; }
+}
+export interface Options { merged?: string; }
+`;
+
+  it('resolves the same names as the regex locator', () => {
+    const names = (name: string) => locator.listProps(NAMESPACED, name).map(p => p.name);
+    expect(names('Options')).toEqual(['top', 'merged']);
+    expect(names('Foo.Options')).toEqual(['inFoo']);
+    expect(names('Foo.Deep.Options')).toEqual(['deep']);
+    expect(names("'x'.Options")).toEqual(['fromModule']);
+    for (const name of ['Options', 'Foo.Options', 'Foo.Deep.Options', '"x".Options']) {
+      expect(names(name)).toEqual(listInterfaceProps(NAMESPACED, name).map(p => p.name));
+    }
+  });
+});
+
+describe('ast locator - class targets', () => {
+  const CLASS_DTS = `
+export declare abstract class Client {
+    /** Request timeout */
+    timeout: number;
+    private cache;
+    constructor(options?: {
+        timeout?: number;
+        verbose?: boolean;
+    });
+    configure(opts: {
+        notAField: string;
+    }): void;
+    get label(): string;
+}
+`;
+
+  it('matches the regex locator for fields and constructor options', () => {
+    for (const options of [{ kind: 'class' as const }, { kind: 'class' as const, constructorParam: 'options' }]) {
+      const viaAst = locator.listProps(CLASS_DTS, 'Client', options);
+      const viaRegex = listInterfaceProps(CLASS_DTS, 'Client', options);
+      expect(viaAst.map(p => [p.name, p.headStart])).toEqual(viaRegex.map(p => [p.name, p.headStart]));
+    }
+    expect(locator.listProps(CLASS_DTS, 'Client')).toEqual([]);
+  });
+});
+
+describe('ast locator - function targets', () => {
+  const FN_DTS = `
+/** Creates a client. */
+export declare function createClient(opts?: {
+    timeout?: number;
+    baseUrl?: string;
+}, extra?: string): Client;
+declare namespace Lib {
+    function make(size?: number): void;
+}
+`;
+
+  it('matches the regex locator for parameters and option members', () => {
+    for (const [name, param] of [['createClient', 'opts'], ['createClient', undefined], ['Lib.make', undefined]] as const) {
+      const viaAst = locator.findFunction(FN_DTS, name, { param });
+      const viaRegex = findFunction(FN_DTS, name, { param });
+      expect(viaAst?.params).toEqual(viaRegex?.params);
+      expect(viaAst?.headStart).toBe(viaRegex?.headStart);
+    }
+    expect(locator.findFunction(FN_DTS, 'createClient')?.doc?.text).toBe('/** Creates a client. */');
+  });
+});
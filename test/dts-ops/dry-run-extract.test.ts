@@ -110,4 +110,10 @@ describe('extractDeclarationBlock', () => {
     expect(block!.startsWith('export interface Foo')).toBe(true);
     expect(block).not.toMatch(/\/\*\*/);
   });
+
+  it('finds (abstract) class declarations', () => {
+    const dts = `export declare abstract class Client extends Base {\n  timeout: number;\n}\nexport declare const x: number;\n`;
+    const block = extractDeclarationBlock(dts, 'Client');
+    expect(block).toBe('export declare abstract class Client extends Base {\n  timeout: number;\n}');
+  });
 });
@@ -1,8 +1,8 @@
 import { describe, it, expect } from 'vitest';
 
 // Import concrete TS modules (avoid barrel to prevent ESM .js resolution stalls)
-import { findInterfaceBody, listInterfaceProps } from '../../src/dts-ops/locator.js';
-import { chooseDocIndent, extractLeadingJsdoc, formatDefaultLiteral, upsertDefaultForProp } from '../../src/dts-ops/jsdoc.js';
+import { findDeclarationBodies, findFunction, findInterfaceBody, findMemberHead, listInterfaceProps, regexLocator } from '../../src/dts-ops/locator.js';
+import { chooseDocIndent, extractLeadingJsdoc, formatDefaultLiteral, readParamDefaultFromJsdoc, upsertDefaultForProp } from '../../src/dts-ops/jsdoc.js';
 import { injectDefaultsIntoDts } from '../../src/dts-ops/inject.js';
 import { assertDefaultsInDts } from '../../src/dts-ops/assert.js';
 
@@ -124,6 +124,15 @@ describe('locator basics', () => {
     expect(names).toContain('name');
     expect(names).toContain('nested');     // The actual property that has the object type
   });
+
+  it('finds member heads by dotted path', () => {
+    const text = `export interface A {\n  retry?: {\n    backoffMs?: number;\n  };\n}\n/** Run. */\nexport function run(opts?: { x?: number }): void;\n`;
+    expect(findMemberHead(regexLocator, text, 'A', 'retry')).toBe(text.indexOf('retry'));
+    expect(findMemberHead(regexLocator, text, 'A', 'retry.backoffMs')).toBe(text.indexOf('backoffMs'));
+    expect(findMemberHead(regexLocator, text, 'A', 'retry.other')).toBeUndefined();
+    expect(findMemberHead(regexLocator, text, 'run', 'opts', { kind: 'function' })).toBe(text.indexOf('export function'));
+    expect(findMemberHead(regexLocator, text, 'run', 'y', { kind: 'function' })).toBeUndefined();
+  });
 });
 
 describe('jsdoc helpers', () => {
@@ -301,4 +310,320 @@ describe('ReDoS protection', () => {
     expect(props).toHaveLength(1);
     expect(props[0].name).toBe('foo');
   });
-});
\ No newline at end of file
+});
+describe('type alias targets', () => {
+  const ALIASES = `
+export interface Base {
+  id?: string;
+}
+
+export type Plain = {
+  /**
+   * Plain alias member
+   */
+  name?: string;
+  count?: number;
+};
+
+export type Mixed<T = unknown> = Base & {
+  label?: string;
+  extra?: Partial<{ hidden?: string; }>;
+} & {
+  "with-dash"?: boolean;
+};
+`;
+
+  it('finds the object literal of a plain type alias', () => {
+    const body = findInterfaceBody(ALIASES, 'Plain');
+    expect(body).toBeTruthy();
+    expect(ALIASES.slice(body!.bodyStart, body!.bodyEnd)).toContain('count?: number;');
+
+    const names = listInterfaceProps(ALIASES, 'Plain').map(p => p.name);
+    expect(names).toEqual(['name', 'count']);
+  });
+
+  it('lists members of every top-level literal in an intersection', () => {
+    const bodies = findDeclarationBodies(ALIASES, 'Mixed');
+    expect(bodies).toHaveLength(2);
+
+    const names = listInterfaceProps(ALIASES, 'Mixed').map(p => p.name);
+    expect(names).toEqual(['label', 'extra', 'with-dash']);
+    expect(names).not.toContain('hidden');
+    expect(names).not.toContain('id');
+  });
+
+  it('injects into and asserts against type alias members', () => {
+    const defaults = { name: 'n', count: 2 };
+    const result = injectDefaultsIntoDts({
+      dtsText: ALIASES,
+      interfaceName: 'Plain',
+      defaults,
+      preferredTag: 'default',
+    });
+    expect(result.missing).toEqual([]);
+    expect(result.updatedCount).toBe(2);
+    expect(result.updatedText).toMatch(/Plain alias member[\s*]*@default "n"/);
+
+    const mixed = injectDefaultsIntoDts({
+      dtsText: result.updatedText,
+      interfaceName: 'Mixed',
+      defaults: { label: 'L', 'with-dash': true },
+      preferredTag: 'default',
+    });
+    expect(mixed.updatedCount).toBe(2);
+
+    // The interface named in the intersection is untouched
+    const base = mixed.updatedText.slice(0, mixed.updatedText.indexOf('export type Plain'));
+    expect(base).not.toMatch(/@default/);
+
+    expect(assertDefaultsInDts({ dtsText: mixed.updatedText, interfaceName: 'Plain', defaults }).ok).toBe(true);
+    expect(assertDefaultsInDts({
+      dtsText: mixed.updatedText,
+      interfaceName: 'Mixed',
+      defaults: { label: 'L', 'with-dash': true },
+    }).ok).toBe(true);
+  });
+});
+
+describe('merged and namespaced declarations', () => {
+  const NAMESPACED = `
+export interface Options {
+  top?: string;
+}
+
+declare namespace Foo {
+  interface Options {
+    inFoo?: number;
+  }
+  namespace Inner {
+    interface Options {
+      inInner?: number;
+    }
+  }
+}
+
+declare namespace Foo.Deep {
+  interface Options {
+    deep?: boolean;
+  }
+}
+
+declare module 'x' {
+  interface Options {
+    fromModule?: string;
+  }
+}
+
+export interface Options {
+  merged?: string;
+}
+
+declare namespace Foo {
+  interface Options {
+    reopened?: number;
+  }
+}
+`;
+
+  it('collects members across all merged declarations', () => {
+    expect(findDeclarationBodies(NAMESPACED, 'Options')).toHaveLength(2);
+    expect(listInterfaceProps(NAMESPACED, 'Options').map(p => p.name)).toEqual(['top', 'merged']);
+  });
+
+  it('resolves qualified names into namespaces, dotted namespaces and ambient modules', () => {
+    expect(listInterfaceProps(NAMESPACED, 'Foo.Options').map(p => p.name)).toEqual(['inFoo', 'reopened']);
+    expect(listInterfaceProps(NAMESPACED, 'Foo.Inner.Options').map(p => p.name)).toEqual(['inInner']);
+    expect(listInterfaceProps(NAMESPACED, 'Foo.Deep.Options').map(p => p.name)).toEqual(['deep']);
+    expect(listInterfaceProps(NAMESPACED, '"x".Options').map(p => p.name)).toEqual(['fromModule']);
+    expect(listInterfaceProps(NAMESPACED, "'x'.Options").map(p => p.name)).toEqual(['fromModule']);
+    expect(listInterfaceProps(NAMESPACED, 'Nope.Options')).toEqual([]);
+  });
+
+  it('falls back to the first nested declaration for an unqualified name', () => {
+    expect(listInterfaceProps(NAMESPACED, 'Missing')).toEqual([]);
+    const dts = `declare module 'x' {\n  interface OnlyHere {\n    a?: number;\n  }\n}\n`;
+    expect(listInterfaceProps(dts, 'OnlyHere').map(p => p.name)).toEqual(['a']);
+  });
+
+  it('injects each default into the declaration that contains the member', () => {
+    const result = injectDefaultsIntoDts({
+      dtsText: NAMESPACED,
+      interfaceName: 'Foo.Options',
+      defaults: { inFoo: 1, reopened: 2 },
+      preferredTag: 'default',
+    });
+    expect(result.missing).toEqual([]);
+    const text = result.updatedText;
+    expect(text).toMatch(/@default 1\s*\*\/\s*inFoo\?: number;/);
+    expect(text).toMatch(/@default 2\s*\*\/\s*reopened\?: number;/);
+    expect(text.match(/@default/g)).toHaveLength(2);
+    expect(assertDefaultsInDts({ dtsText: text, interfaceName: 'Foo.Options', defaults: { inFoo: 1, reopened: 2 } }).ok).toBe(true);
+  });
+});
+
+describe('class targets', () => {
+  const CLASS_DTS = `
+export declare abstract class Client<T = unknown> extends Base implements Closeable {
+    /** Request timeout */
+    timeout: number;
+    protected readonly retries?: number;
+    private cache;
+    static instances: number;
+    baseUrl!: string;
+    constructor(options?: {
+        timeout?: number;
+        verbose?: boolean;
+    });
+    configure(opts: {
+        notAField: string;
+    }): void;
+    get label(): string;
+    abstract send(payload: T): Promise<void>;
+}
+
+export interface ClientOptions {
+    verbose?: boolean;
+}
+
+export declare class Referencing {
+    constructor(name: string, options?: ClientOptions);
+}
+`;
+
+  it('lists property declarations but not methods, accessors or their parameters', () => {
+    expect(listInterfaceProps(CLASS_DTS, 'Client', { kind: 'class' }).map(p => p.name))
+      .toEqual(['timeout', 'retries', 'cache', 'instances', 'baseUrl']);
+    expect(listInterfaceProps(CLASS_DTS, 'Client')).toEqual([]);
+  });
+
+  it('does not let a `/*/` comment close itself when counting member depth', () => {
+    const dts = 'export declare class Commented {\n    /*/ ( */\n    a?: number;\n}\n';
+    expect(listInterfaceProps(dts, 'Commented', { kind: 'class' }).map(p => p.name)).toEqual(['a']);
+    expect(listInterfaceProps(dts.replace('class', 'interface').replace('declare ', ''), 'Commented').map(p => p.name)).toEqual(['a']);
+  });
+
+  it('adds the members of the constructor options parameter (inline or referenced)', () => {
+    expect(listInterfaceProps(CLASS_DTS, 'Client', { kind: 'class', constructorParam: 'options' }).map(p => p.name))
+      .toEqual(['timeout', 'retries', 'cache', 'instances', 'baseUrl', 'timeout', 'verbose']);
+    expect(listInterfaceProps(CLASS_DTS, 'Referencing', { kind: 'class', constructorParam: 'options' }).map(p => p.name))
+      .toEqual(['verbose']);
+    expect(listInterfaceProps(CLASS_DTS, 'Client', { kind: 'class', constructorParam: 'nope' })).toHaveLength(5);
+  });
+
+  it('documents both the field and the constructor option sharing a name', () => {
+    const defaults = { timeout: 5000, verbose: false, retries: 3 };
+    const result = injectDefaultsIntoDts({
+      dtsText: CLASS_DTS,
+      interfaceName: 'Client',
+      defaults,
+      preferredTag: 'default',
+      kind: 'class',
+      constructorParam: 'options',
+    });
+    expect(result.missing).toEqual([]);
+    expect(result.updatedCount).toBe(4);
+    const text = result.updatedText;
+    expect(text).toMatch(/Request timeout\n[\s*]*@default 5000\s*\*\/\s*timeout: number;/);
+    expect(text).toMatch(/@default 3\s*\*\/\s*protected readonly retries\?: number;/);
+    expect(text).toMatch(/@default 5000\s*\*\/\s*timeout\?: number;/);
+    expect(text).toMatch(/@default false\s*\*\/\s*verbose\?: boolean;/);
+    expect(text).not.toMatch(/@default[^\n]*\n\s*notAField/);
+
+    const check = (dtsText: string) =>
+      assertDefaultsInDts({ dtsText, interfaceName: 'Client', defaults, kind: 'class', constructorParam: 'options' });
+    expect(check(text).ok).toBe(true);
+    // only the class field is documented → the constructor option is reported
+    const fieldOnly = injectDefaultsIntoDts({
+      dtsText: CLASS_DTS, interfaceName: 'Client', defaults: { timeout: 5000 }, preferredTag: 'default', kind: 'class',
+    }).updatedText;
+    expect(check(fieldOnly).mismatches).toContainEqual({ interfaceName: 'Client', prop: 'timeout', expected: '5000', found: undefined });
+  });
+
+  it('finds classes inside namespaces', () => {
+    const dts = `declare namespace Lib {\n  class Widget {\n    size: number;\n  }\n}\n`;
+    expect(listInterfaceProps(dts, 'Lib.Widget', { kind: 'class' }).map(p => p.name)).toEqual(['size']);
+  });
+});
+
+describe('function targets (@param defaults)', () => {
+  const FN_DTS = `export interface ClientOptions {
+    timeout?: number;
+    baseUrl?: string;
+}
+/**
+ * Creates a client.
+ *
+ * @param opts - Client options
+ * @param opts.timeout - Request timeout in ms
+ * @returns The client
+ */
+export declare function createClient(opts?: ClientOptions): Client;
+export declare function createClient(url: string, opts?: ClientOptions): Client;
+export declare function retry<T>(fn: () => Promise<T>, attempts?: number, { signal }?: {
+    signal?: AbortSignal;
+}, backoff?: Map<string, number>): Promise<T>;
+`;
+
+  it('lists option members or parameter names of the first declaration', () => {
+    expect(findFunction(FN_DTS, 'createClient', { param: 'opts' })?.params).toEqual(['timeout', 'baseUrl']);
+    expect(findFunction(FN_DTS, 'createClient')?.params).toEqual(['opts']);
+    expect(findFunction(FN_DTS, 'retry')?.params).toEqual(['fn', 'attempts', 'backoff']);
+    expect(findFunction(FN_DTS, 'missing')).toBeUndefined();
+  });
+
+  it('appends default suffixes to existing @param tags and adds missing ones', () => {
+    const defaults = { timeout: 30000, baseUrl: 'https://api' };
+    const result = injectDefaultsIntoDts({
+      dtsText: FN_DTS,
+      interfaceName: 'createClient',
+      defaults,
+      preferredTag: 'default',
+      kind: 'function',
+      param: 'opts',
+    });
+    expect(result.missing).toEqual([]);
+    expect(result.updatedCount).toBe(2);
+    const text = result.updatedText;
+    expect(text).toContain(' * @param opts.timeout - Request timeout in ms (default: 30000)\n');
+    expect(text).toContain(' * @param opts.baseUrl - (default: "https://api")\n * @returns The client\n');
+    expect(text).toContain(' * Creates a client.\n');
+    expect(text.match(/@param opts\.timeout/g)).toHaveLength(1);
+
+    const again = injectDefaultsIntoDts({
+      dtsText: text, interfaceName: 'createClient', defaults, preferredTag: 'default', kind: 'function', param: 'opts',
+    });
+    expect(again.updatedCount).toBe(0);
+
+    const check = (dtsText: string, values: Record<string, unknown>) =>
+      assertDefaultsInDts({ dtsText, interfaceName: 'createClient', defaults: values, kind: 'function', param: 'opts' });
+    expect(check(text, defaults).ok).toBe(true);
+    expect(check(text, { timeout: 5000 }).mismatches).toEqual([
+      { interfaceName: 'createClient', prop: 'timeout', expected: '5000', found: '30000' },
+    ]);
+
+    const changed = injectDefaultsIntoDts({
+      dtsText: text, interfaceName: 'createClient', defaults: { timeout: 5000 }, preferredTag: 'default', kind: 'function', param: 'opts',
+    }).updatedText;
+    expect(changed).toContain('@param opts.timeout - Request timeout in ms (default: 5000)\n');
+  });
+
+  it('creates a doc for undocumented functions and reports unknown parameters', () => {
+    const result = injectDefaultsIntoDts({
+      dtsText: FN_DTS,
+      interfaceName: 'retry',
+      defaults: { attempts: 3, nope: 1 },
+      preferredTag: 'default',
+      kind: 'function',
+    });
+    expect(result.missing).toEqual([{ interfaceName: 'retry', prop: 'nope' }]);
+    expect(result.updatedText).toContain('/**\n * @param attempts - (default: 3)\n */\nexport declare function retry<T>(');
+    expect(assertDefaultsInDts({ dtsText: result.updatedText, interfaceName: 'retry', defaults: { attempts: 3 }, kind: 'function' }).ok).toBe(true);
+  });
+
+  it('reads default suffixes from typed and bracketed @param tags', () => {
+    const doc = '/**\n * @param {number} [opts.timeout=5] - Timeout (default: 5)\n * @param opts.retries\n */';
+    expect(readParamDefaultFromJsdoc(doc, 'opts.timeout')).toBe('5');
+    expect(readParamDefaultFromJsdoc(doc, 'opts.retries')).toBeUndefined();
+    expect(readParamDefaultFromJsdoc(doc, 'opts')).toBeUndefined();
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from 'vitest';
 import { formatDefaultLiteral } from '../../src/dts-ops/jsdoc.js';
 import { injectDefaultsIntoDts } from '../../src/dts-ops/inject.js';
 import { assertDefaultsInDts } from '../../src/dts-ops/assert.js';
+import { checkDefaultsCoverage } from '../../src/dts-ops/coverage.js';
 
 
 const IFACE_SIBLINGS = `
@@ -158,11 +159,10 @@ export interface Mixed {
 });
 
 describe('formatting edge cases for default literals', () => {
-  it('truncates long JSON and stringifies non-serializable values', () => {
+  it('keeps long JSON intact and stringifies non-serializable values', () => {
     const huge = { a: 'x'.repeat(500) };
     const lit = formatDefaultLiteral(huge);
-    expect(lit.includes('...')).toBe(true);
-    expect(lit.length).toBeLessThanOrEqual(130);
+    expect(lit).toBe(JSON.stringify(huge));
 
     // Non-serializable
     function f() {}
@@ -350,3 +350,306 @@ export interface Example {
     expect(updatedText).toBe(UPDATED);
   });
 });
+
+describe('recursive mode (nested defaults)', () => {
+  const NESTED = `
+export interface RetryOptions {
+  /** Max attempts */
+  attempts?: number;
+}
+
+export interface ClientOptions {
+  timeout?: number;
+  retry?: {
+    backoffMs?: number;
+    jitter?: boolean;
+  };
+  policy?: RetryOptions | undefined;
+  tags?: string[];
+}
+`;
+
+  const defaults = {
+    timeout: 1000,
+    retry: { backoffMs: 200, jitter: false },
+    policy: { attempts: 3 },
+    tags: ['a'],
+  };
+
+  it('does not treat members of inline object types as siblings', () => {
+    const result = injectDefaultsIntoDts({
+      dtsText: NESTED,
+      interfaceName: 'ClientOptions',
+      defaults: { jitter: true },
+      preferredTag: 'default',
+    });
+    expect(result.missing).toEqual([{ interfaceName: 'ClientOptions', prop: 'jitter' }]);
+    expect(result.updatedCount).toBe(0);
+  });
+
+  it('only documents top-level members when recursive is off', () => {
+    const result = injectDefaultsIntoDts({
+      dtsText: NESTED,
+      interfaceName: 'ClientOptions',
+      defaults,
+      preferredTag: 'default',
+    });
+    expect(result.updatedCount).toBe(4);
+    expect(result.updatedText).not.toMatch(/@default 200/);
+    expect(result.updatedText).not.toMatch(/@default 3\n/);
+  });
+
+  it('injects at every depth (inline literals and same-file references) and asserts by path', () => {
+    const result = injectDefaultsIntoDts({
+      dtsText: NESTED,
+      interfaceName: 'ClientOptions',
+      defaults,
+      preferredTag: 'default',
+      recursive: true,
+    });
+
+    expect(result.missing).toEqual([]);
+    expect(result.updatedCount).toBe(7);
+
+    const text = result.updatedText;
+    expect(text).toMatch(/@default 200\s*\*\/\s*backoffMs\?: number;/);
+    expect(text).toMatch(/@default false\s*\*\/\s*jitter\?: boolean;/);
+    expect(text).toMatch(/Max attempts\s*\*\s*\* @default 3\s*\*\/\s*attempts\?: number;/);
+    expect(text).toMatch(/@default \{"backoffMs":200,"jitter":false\}/);
+
+    // Idempotent
+    const again = injectDefaultsIntoDts({
+      dtsText: text,
+      interfaceName: 'ClientOptions',
+      defaults,
+      preferredTag: 'default',
+      recursive: true,
+    });
+    expect(again.updatedCount).toBe(0);
+    expect(again.updatedText).toBe(text);
+
+    expect(assertDefaultsInDts({ dtsText: text, interfaceName: 'ClientOptions', defaults, recursive: true }).ok).toBe(true);
+
+    const drifted = assertDefaultsInDts({
+      dtsText: text,
+      interfaceName: 'ClientOptions',
+      defaults: { retry: { backoffMs: 500, jitter: false, extra: 1 } },
+      recursive: true,
+    });
+    expect(drifted.mismatches).toEqual([
+      { interfaceName: 'ClientOptions', prop: 'retry', expected: '{"backoffMs":500,"jitter":false,"extra":1}', found: '{"backoffMs":200,"jitter":false}' },
+      { interfaceName: 'ClientOptions', prop: 'retry.backoffMs', expected: '500', found: '200' },
+      { interfaceName: 'ClientOptions', prop: 'retry.extra', expected: '1', found: undefined },
+    ]);
+  });
+});
+
+describe('pretty-printed multi-line defaults', () => {
+  const IFACE = `export interface Example {
+  /**
+   * Retry policy
+   * @see https://example.com
+   */
+  retry?: { attempts?: number; backoffMs?: number[] };
+  short?: string[];
+}
+`;
+  const defaults = {
+    retry: { attempts: 3, backoffMs: [100, 200, 400, 800, 1600, 3200, 6400, 12800, 25600, 51200, 102400] },
+    short: ['a', 'b'],
+  };
+
+  it('renders long objects as indented JSON below the tag and round-trips through assert', () => {
+    const { updatedText } = injectDefaultsIntoDts({ dtsText: IFACE, interfaceName: 'Example', defaults, preferredTag: 'default' });
+    expect(updatedText).toContain(
+      '   * Retry policy\n' +
+      '   * \n' +
+      '   * @default\n' +
+      '   * {\n' +
+      '   *   "attempts": 3,\n' +
+      '   *   "backoffMs": [\n' +
+      '   *     100,\n',
+    );
+    expect(updatedText).toContain('   *   ]\n   * }\n   * @see https://example.com\n   */\n  retry?:');
+    expect(updatedText).toContain('   * @default ["a","b"]\n');
+    expect(assertDefaultsInDts({ dtsText: updatedText, interfaceName: 'Example', defaults }).ok).toBe(true);
+
+    const again = injectDefaultsIntoDts({ dtsText: updatedText, interfaceName: 'Example', defaults, preferredTag: 'default' });
+    expect(again.updatedCount).toBe(0);
+    expect(again.updatedText).toBe(updatedText);
+  });
+
+  it('re-renders when the width threshold changes', () => {
+    const { updatedText } = injectDefaultsIntoDts({ dtsText: IFACE, interfaceName: 'Example', defaults, preferredTag: 'default' });
+    const wide = injectDefaultsIntoDts({ dtsText: updatedText, interfaceName: 'Example', defaults, preferredTag: 'default', inlineWidth: 500 });
+    expect(wide.updatedCount).toBe(1);
+    expect(wide.updatedText).toContain(`@default ${JSON.stringify(defaults.retry)}\n`);
+
+    const narrow = injectDefaultsIntoDts({ dtsText: IFACE, interfaceName: 'Example', defaults, preferredTag: 'default', inlineWidth: 5 });
+    expect(narrow.updatedText).toMatch(/@default\n\s*\* \[\n\s*\*   "a",/);
+    expect(assertDefaultsInDts({ dtsText: narrow.updatedText, interfaceName: 'Example', defaults }).ok).toBe(true);
+  });
+
+  it('reports a changed value inside a multi-line block', () => {
+    const { updatedText } = injectDefaultsIntoDts({ dtsText: IFACE, interfaceName: 'Example', defaults, preferredTag: 'default' });
+    const changed = { ...defaults, retry: { ...defaults.retry, attempts: 4 } };
+    const res = assertDefaultsInDts({ dtsText: updatedText, interfaceName: 'Example', defaults: changed });
+    expect(res.mismatches).toHaveLength(1);
+    expect(res.mismatches[0].found).toBe(JSON.stringify(defaults.retry));
+  });
+
+  it('keeps prose after a single-line default as description', () => {
+    const dtsText = `export interface Net {
+  /** @default 30000
+   * (thirty seconds, see docs) */
+  timeout?: number;
+}
+`;
+    const res = assertDefaultsInDts({ dtsText, interfaceName: 'Net', defaults: { timeout: 30000 } });
+    expect(res.ok).toBe(true);
+
+    const { updatedText, updatedCount } = injectDefaultsIntoDts({ dtsText, interfaceName: 'Net', defaults: { timeout: 30000 }, preferredTag: 'default' });
+    expect(updatedCount).toBe(0);
+    expect(updatedText).toContain('(thirty seconds, see docs)');
+
+    const changed = injectDefaultsIntoDts({ dtsText, interfaceName: 'Net', defaults: { timeout: 5000 }, preferredTag: 'default' });
+    expect(changed.updatedText).toContain('   * (thirty seconds, see docs)\n   * \n   * @default 5000\n');
+  });
+});
+
+describe('per-property overrides and @sdd markers', () => {
+  const IFACE = `export interface Example {
+  /** @sddIgnore */
+  secret?: string;
+  /**
+   * Transform hook
+   * @sddDefault "identity"
+   */
+  transform?: (s: string) => string;
+  /** @default "old" */
+  label?: string;
+  retry?: {
+    attempts?: number;
+  };
+}
+`;
+  const defaults = { secret: 'hunter2', transform: (s: string) => s, label: 'x', retry: { attempts: 3 } };
+
+  it('skips @sddIgnore members and documents @sddDefault text', () => {
+    const res = injectDefaultsIntoDts({ dtsText: IFACE, interfaceName: 'Example', defaults, preferredTag: 'default' });
+    expect(res.updatedText).toContain('  /** @sddIgnore */\n  secret?: string;');
+    expect(res.updatedText).not.toContain('hunter2');
+    expect(res.updatedText).toContain('   * Transform hook\n   * \n   * @default "identity"\n   * @sddDefault "identity"\n');
+    expect(res.missing).toEqual([]);
+    expect(assertDefaultsInDts({ dtsText: res.updatedText, interfaceName: 'Example', defaults }).ok).toBe(true);
+
+    const again = injectDefaultsIntoDts({ dtsText: res.updatedText, interfaceName: 'Example', defaults, preferredTag: 'default' });
+    expect(again.updatedCount).toBe(0);
+  });
+
+  it('applies overrides by property path, ahead of markers', () => {
+    const overrides = { label: false as const, transform: 'computed at runtime', 'retry.attempts': '3 (per host)' };
+    const res = injectDefaultsIntoDts({
+      dtsText: IFACE, interfaceName: 'Example', defaults, preferredTag: 'default', recursive: true, overrides,
+    });
+    expect(res.updatedText).toContain('/** @default "old" */\n  label?: string;');
+    expect(res.updatedText).toContain('@default computed at runtime\n');
+    expect(res.updatedText).toContain('@default 3 (per host)');
+
+    const ok = assertDefaultsInDts({ dtsText: res.updatedText, interfaceName: 'Example', defaults, recursive: true, overrides });
+    expect(ok.mismatches).toEqual([]);
+    const withoutOverrides = assertDefaultsInDts({ dtsText: res.updatedText, interfaceName: 'Example', defaults, recursive: true });
+    expect(withoutOverrides.mismatches.map((m) => m.prop)).toEqual(['transform', 'label', 'retry.attempts']);
+  });
+});
+
+describe('coverage check', () => {
+  const IFACE = `export interface Example {
+  /** @default 1 */
+  kept?: number;
+  /** @default "gone" */
+  removed?: string;
+  noDefault?: boolean;
+  required: string;
+  /** @sddIgnore */
+  ignored?: string;
+  retry?: {
+    attempts?: number;
+    /** @default 100 */
+    backoffMs?: number;
+  };
+}
+`;
+  const defaults = { kept: 1, retry: { attempts: 3 } };
+
+  it('lists optional members without defaults and stale @default tags', () => {
+    const res = checkDefaultsCoverage({ dtsText: IFACE, interfaceName: 'Example', defaults });
+    expect(res.undocumented).toEqual(['noDefault']);
+    expect(res.stale).toEqual([{ prop: 'removed', found: '"gone"' }]);
+  });
+
+  it('descends into plain-object defaults when recursive and honors overrides', () => {
+    const res = checkDefaultsCoverage({
+      dtsText: IFACE, interfaceName: 'Example', defaults, recursive: true, overrides: { noDefault: 'false' },
+    });
+    expect(res.undocumented).toEqual([]);
+    expect(res.stale).toEqual([{ prop: 'removed', found: '"gone"' }, { prop: 'retry.backoffMs', found: '100' }]);
+  });
+});
+
+describe('prune mode', () => {
+  const IFACE = `export interface Example {
+  /** @default 1 */
+  kept?: number;
+  /** @default "gone" */
+  onlyDefault?: string;
+  /**
+   * Still described
+   * @defaultValue 5
+   * @see https://example.com
+   */
+  described?: number;
+  /**
+   * @sddDefault "manual"
+   * @default "manual"
+   */
+  manual?: string;
+}
+`;
+
+  it('strips stale tags, keeps the rest of the doc and drops emptied blocks', () => {
+    const res = injectDefaultsIntoDts({ dtsText: IFACE, interfaceName: 'Example', defaults: { kept: 1 }, preferredTag: 'default', prune: true });
+    expect(res.updatedText).toBe(`export interface Example {
+  /** @default 1 */
+  kept?: number;
+  onlyDefault?: string;
+  /**
+   * Still described
+   * 
+   * @see https://example.com
+   */
+  described?: number;
+  /**
+   * @sddDefault "manual"
+   * @default "manual"
+   */
+  manual?: string;
+}
+`);
+    expect(res.updatedCount).toBe(2);
+    expect(res.pruned).toEqual([
+      { interfaceName: 'Example', prop: 'onlyDefault' },
+      { interfaceName: 'Example', prop: 'described' },
+    ]);
+    expect(res.changes).toEqual([{ prop: 'onlyDefault', before: '"gone"' }, { prop: 'described', before: '5' }]);
+
+    const again = injectDefaultsIntoDts({ dtsText: res.updatedText, interfaceName: 'Example', defaults: { kept: 1 }, preferredTag: 'default', prune: true });
+    expect(again.updatedCount).toBe(0);
+  });
+
+  it('leaves stale tags alone unless enabled', () => {
+    const res = injectDefaultsIntoDts({ dtsText: IFACE, interfaceName: 'Example', defaults: { kept: 1 }, preferredTag: 'default' });
+    expect(res.updatedText).toBe(IFACE);
+    expect(res.pruned).toBeUndefined();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { literalsEqual, parseLiteral } from '../../src/dts-ops/literal.js';
+import { assertDefaultsInDts } from '../../src/dts-ops/assert.js';
+
+
+describe('parseLiteral', () => {
+  it('parses JSON5 / JS literal syntax', () => {
+    expect(parseLiteral(`{ a: 1, 'b': "two", "c": [1e3, 0x10, .5, +1, 1_000,], // note
+      d: { nested: true, }, /* x */ e: null, f: undefined }`)).toEqual({
+      ok: true,
+      value: { a: 1, b: 'two', c: [1000, 16, 0.5, 1, 1000], d: { nested: true }, e: null, f: undefined },
+    });
+    expect(parseLiteral("'it\\'s \\u0041\\x42'")).toEqual({ ok: true, value: "it's AB" });
+    expect(parseLiteral('`tpl`')).toEqual({ ok: true, value: 'tpl' });
+    expect(parseLiteral('-Infinity')).toEqual({ ok: true, value: -Infinity });
+    expect(parseLiteral('NaN')).toEqual({ ok: true, value: NaN });
+  });
+
+  it('rejects expressions and trailing input', () => {
+    expect(parseLiteral('Duration.seconds(30)')).toEqual({ ok: false });
+    expect(parseLiteral('`a${b}`')).toEqual({ ok: false });
+    expect(parseLiteral('{ a: 1 } extra')).toEqual({ ok: false });
+    expect(parseLiteral('{ a: 1')).toEqual({ ok: false });
+    expect(parseLiteral('')).toEqual({ ok: false });
+  });
+});
+
+describe('literalsEqual', () => {
+  it('compares structurally unless strict', () => {
+    expect(literalsEqual('{ "b": 2, "a": 1 }', '{"a":1,"b":2}')).toBe(true);
+    expect(literalsEqual("'x'", '"x"')).toBe(true);
+    expect(literalsEqual('1e3', '1000')).toBe(true);
+    expect(literalsEqual('NaN', 'NaN')).toBe(true);
+    expect(literalsEqual('[1,2]', '[2,1]')).toBe(false);
+    expect(literalsEqual('{"a":1}', '{"a":1,"b":2}')).toBe(false);
+    expect(literalsEqual('1e3', '1000', true)).toBe(false);
+    expect(literalsEqual(undefined, '1')).toBe(false);
+  });
+
+  it('falls back to exact text for non-literals', () => {
+    expect(literalsEqual('Duration.seconds(30)', 'Duration.seconds(30)')).toBe(true);
+    expect(literalsEqual('Duration.seconds( 30 )', 'Duration.seconds(30)')).toBe(false);
+  });
+});
+
+describe('assertDefaultsInDts structural comparison', () => {
+  const DTS = `export interface Example {
+  /** @default { retries: 3, 'mode': 'fast' } */
+  options?: object;
+  /** @default 1e3 */
+  timeout?: number;
+}
+`;
+  const defaults = { options: { mode: 'fast', retries: 3 }, timeout: 1000 };
+
+  it('accepts hand-formatted literals that match the runtime value', () => {
+    expect(assertDefaultsInDts({ dtsText: DTS, interfaceName: 'Example', defaults }).ok).toBe(true);
+  });
+
+  it('reports them in strict mode', () => {
+    const res = assertDefaultsInDts({ dtsText: DTS, interfaceName: 'Example', defaults, strict: true });
+    expect(res.mismatches.map(m => m.prop)).toEqual(['options', 'timeout']);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { serializeValue } from '../../src/dts-ops/serialize.js';
+import { parseLiteral } from '../../src/dts-ops/literal.js';
+import { formatDefaultLiteral } from '../../src/dts-ops/jsdoc.js';
+import { injectDefaultsIntoDts } from '../../src/dts-ops/inject.js';
+import { assertDefaultsInDts } from '../../src/dts-ops/assert.js';
+
+
+describe('serializeValue', () => {
+  it('matches JSON.stringify for JSON-compatible values (compact and pretty)', () => {
+    const value = { s: 'a"b\n', n: 1.5, b: true, z: null, list: [1, { deep: [] }], empty: {} };
+    expect(serializeValue(value)).toBe(JSON.stringify(value));
+    expect(serializeValue(value, 2)).toBe(JSON.stringify(value, null, 2));
+  });
+
+  it('renders non-JSON values as TypeScript expressions', () => {
+    expect(serializeValue(undefined)).toBe('undefined');
+    expect(serializeValue(NaN)).toBe('Number.NaN');
+    expect(serializeValue(Infinity)).toBe('Number.POSITIVE_INFINITY');
+    expect(serializeValue(-Infinity)).toBe('Number.NEGATIVE_INFINITY');
+    expect(serializeValue(-0)).toBe('-0');
+    expect(serializeValue(10n)).toBe('10n');
+    expect(serializeValue(new Date(0))).toBe('new Date("1970-01-01T00:00:00.000Z")');
+    expect(serializeValue(new Date(NaN))).toBe('new Date(NaN)');
+    expect(serializeValue(/a\/b/gi)).toBe('/a\\/b/gi');
+    expect(serializeValue(new Map([['a', 1]]))).toBe('new Map([["a",1]])');
+    expect(serializeValue(new Set([1, 2]))).toBe('new Set([1,2])');
+    expect(serializeValue(new Map())).toBe('new Map()');
+    expect(serializeValue({ at: undefined, fn() {}, list: [() => 1] })).toBe('{"at":undefined,"list":[null]}');
+  });
+
+  it('throws for circular structures and top-level functions', () => {
+    const loop: Record<string, unknown> = {};
+    loop.self = loop;
+    expect(() => serializeValue(loop)).toThrow(TypeError);
+    expect(() => serializeValue(() => 1)).toThrow(TypeError);
+  });
+
+  it('round-trips through parseLiteral', () => {
+    const values = [
+      undefined, NaN, -Infinity, 10n, -5n, new Date(86_400_000), /x+/m,
+      new Map<unknown, unknown>([['k', new Set([1n])], [2, { a: [Infinity] }]]),
+      new Set(['a']),
+    ];
+    for (const value of values) {
+      expect(parseLiteral(serializeValue(value))).toEqual({ ok: true, value });
+      expect(parseLiteral(serializeValue(value, 2))).toEqual({ ok: true, value });
+    }
+  });
+});
+
+describe('formatDefaultLiteral with serializer hooks', () => {
+  const ctx = { interfaceName: 'Example', prop: 'retry' };
+
+  it('tries hooks in order, for nested values too, before the built-ins', () => {
+    const seen: unknown[] = [];
+    const hooks = [
+      (v: unknown) => { seen.push(v); return undefined; },
+      (v: unknown) => (v instanceof URL ? `new URL(${JSON.stringify(v.href)})` : undefined),
+    ];
+    const value = { base: new URL('https://example.com/'), n: 1 };
+    expect(formatDefaultLiteral(value, ctx, hooks)).toBe('{"base":new URL("https://example.com/"),"n":1}');
+    expect(seen).toEqual([value, value.base, 1]);
+    expect(formatDefaultLiteral(() => 1, ctx, [(v) => (typeof v === 'function' ? 'fn' : undefined)])).toBe('fn');
+  });
+
+  it('propagates hook errors instead of falling back', () => {
+    const boom = () => { throw new TypeError('boom'); };
+    expect(() => formatDefaultLiteral({ a: 1 }, ctx, [boom])).toThrow('boom');
+  });
+});
+
+describe('inject/assert with non-JSON defaults', () => {
+  const IFACE = `export interface Example {
+  limit?: bigint;
+  since?: Date;
+  pattern?: RegExp;
+  aliases?: Map<string, string>;
+}
+`;
+  const defaults = {
+    limit: 10n,
+    since: new Date('2024-01-01T00:00:00.000Z'),
+    pattern: /^v\d+$/,
+    aliases: new Map([['ls', 'list'], ['rm', 'remove']]),
+  };
+
+  it('writes TS expressions and asserts them back', () => {
+    const { updatedText } = injectDefaultsIntoDts({ dtsText: IFACE, interfaceName: 'Example', defaults, preferredTag: 'default' });
+    expect(updatedText).toContain('@default 10n\n');
+    expect(updatedText).toContain('@default new Date("2024-01-01T00:00:00.000Z")\n');
+    expect(updatedText).toContain('@default /^v\\d+$/\n');
+    expect(updatedText).toContain('@default new Map([["ls","list"],["rm","remove"]])\n');
+    expect(assertDefaultsInDts({ dtsText: updatedText, interfaceName: 'Example', defaults }).ok).toBe(true);
+
+    const changed = { ...defaults, aliases: new Map([['ls', 'list']]) };
+    const res = assertDefaultsInDts({ dtsText: updatedText, interfaceName: 'Example', defaults: changed });
+    expect(res.mismatches.map((m) => m.prop)).toEqual(['aliases']);
+  });
+
+  it('uses a custom serializer for both inject and assert', () => {
+    const serialize = (value: unknown) => (value instanceof Date ? `"${value.toISOString().slice(0, 10)}"` : String(value));
+    const { updatedText } = injectDefaultsIntoDts({
+      dtsText: IFACE, interfaceName: 'Example', defaults: { since: defaults.since }, preferredTag: 'default', serialize,
+    });
+    expect(updatedText).toContain('@default "2024-01-01"\n');
+    expect(assertDefaultsInDts({ dtsText: updatedText, interfaceName: 'Example', defaults: { since: defaults.since }, serialize }).ok).toBe(true);
+  });
+});
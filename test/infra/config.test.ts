@@ -229,6 +229,33 @@ describe('config.ts', () => {
       );
     });
 
+    it('accepts a config without "defaults" when every target sets its own', async () => {
+      const configPath = path.join(tempDirPath, 'docdefaults.config.json');
+      const config = {
+        targets: [
+          { name: 'A', types: './a.ts', interface: 'A', member: 'A', defaults: './a.mjs' },
+          { name: 'B', types: './b.ts', interface: 'B', member: 'B', defaults: './b.mjs' },
+        ],
+      };
+      await fs.writeFile(configPath, JSON.stringify(config));
+      expect(await loadConfig(configPath)).toEqual(config);
+
+      config.targets[1].defaults = '';
+      await fs.writeFile(configPath, JSON.stringify(config));
+      await expect(loadConfig(configPath)).rejects.toThrow(/"defaults" must be a string \(unless every target sets its own\)/);
+    });
+
+    it('throws when target.defaults is provided but not a string', async () => {
+      const configPath = path.join(tempDirPath, 'docdefaults.config.json');
+      await fs.writeFile(configPath, JSON.stringify({
+        defaults: './x.mjs',
+        targets: [{ name: 'T', types: './s.ts', interface: 'I', member: 'DEF', defaults: 1 }],
+      }));
+      await expect(loadConfig(configPath)).rejects.toThrow(
+        /Invalid target "T": "defaults" must be a non-empty string if provided/
+      );
+    });
+
     it('accepts minimal valid target (no dtsPath)', async () => {
       const configPath = path.join(tempDirPath, 'docdefaults.config.json');
       const config = {
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { colorizeDiff, createUnifiedDiff } from '../../src/infra/diff.js';
+
+
+describe('diff.ts', () => {
+  const lines = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`);
+
+  it('renders git-style headers and hunks with context', () => {
+    const before = lines(10).join('\n') + '\n';
+    const after = before.replace('line 5\n', 'line five\n');
+    expect(createUnifiedDiff(before, after, 'dist/types.d.ts')).toBe([
+      'diff --git a/dist/types.d.ts b/dist/types.d.ts',
+      '--- a/dist/types.d.ts',
+      '+++ b/dist/types.d.ts',
+      '@@ -2,7 +2,7 @@',
+      ' line 2',
+      ' line 3',
+      ' line 4',
+      '-line 5',
+      '+line five',
+      ' line 6',
+      ' line 7',
+      ' line 8',
+      '',
+    ].join('\n'));
+    expect(createUnifiedDiff(before, before, 'x')).toBe('');
+  });
+
+  it('splits distant changes into separate hunks and merges close ones', () => {
+    const before = lines(30);
+    const after = [...before];
+    after[1] = 'changed 2';
+    after[7] = 'changed 8';
+    after[25] = 'changed 26';
+    const hunks = createUnifiedDiff(before.join('\n') + '\n', after.join('\n') + '\n', 'f').split('\n').filter((l) => l.startsWith('@@'));
+    expect(hunks).toEqual(['@@ -1,11 +1,11 @@', '@@ -23,7 +23,7 @@']);
+  });
+
+  it('handles insertions at the top and a missing final newline', () => {
+    expect(createUnifiedDiff('b', 'a\nb\n', 'f').split('\n').slice(3)).toEqual([
+      '@@ -1 +1,2 @@',
+      '-b',
+      '\\ No newline at end of file',
+      '+a',
+      '+b',
+      '',
+    ]);
+    expect(createUnifiedDiff('', 'a\n', 'f').split('\n')[3]).toBe('@@ -0,0 +1 @@');
+  });
+
+  it('colors removals, additions and hunk headers', () => {
+    const colored = colorizeDiff(createUnifiedDiff('a\n', 'b\n', 'f'));
+    expect(colored).toContain('\x1b[31m-a\x1b[0m');
+    expect(colored).toContain('\x1b[32m+b\x1b[0m');
+    expect(colored).toContain('\x1b[36m@@ -1 +1 @@\x1b[0m');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import path from 'node:path';
+import { detectModuleSyntax, findExtensionlessImports, readPackageType } from '../../src/infra/doctor.js';
+import { createTempDirectory, write } from '../utils.js';
+
+
+describe('doctor.ts', () => {
+  let tempDirPath: string;
+
+  beforeEach(async () => {
+    tempDirPath = await createTempDirectory();
+  });
+
+  it('reads the module type from the nearest package.json', async () => {
+    await write(path.join(tempDirPath, 'package.json'), JSON.stringify({ type: 'module' }));
+    await write(path.join(tempDirPath, 'legacy/package.json'), JSON.stringify({ name: 'legacy' }));
+
+    expect(readPackageType(path.join(tempDirPath, 'dist/index.js'))).toEqual({ type: 'module', packageJson: path.join(tempDirPath, 'package.json') });
+    expect(readPackageType(path.join(tempDirPath, 'legacy/index.js'))).toEqual({ type: 'commonjs', packageJson: path.join(tempDirPath, 'legacy/package.json') });
+  });
+
+  it('tells ESM from CommonJS syntax', () => {
+    expect(detectModuleSyntax(`import { a } from './a.js';\nexport const B = a;`)).toBe('esm');
+    expect(detectModuleSyntax(`export default { a: 1 };`)).toBe('esm');
+    expect(detectModuleSyntax(`"use strict";\nexports.DEFAULTS = { a: 1 };`)).toBe('cjs');
+    expect(detectModuleSyntax(`const a = require('./a');\nmodule.exports = { a };`)).toBe('cjs');
+    expect(detectModuleSyntax(`// import nothing\nconst x = 1;`)).toBeUndefined();
+  });
+
+  it('finds relative imports that Node ESM cannot resolve', () => {
+    const text = [
+      `import { a } from './a';`,
+      `import './polyfill';`,
+      `export * from '../shared/index';`,
+      `import { b } from './b.js';`,
+      `import data from './data.json' with { type: 'json' };`,
+      `import fs from 'node:fs';`,
+    ].join('\n');
+    expect(findExtensionlessImports(text)).toEqual(['./a', '../shared/index', './polyfill']);
+  });
+});
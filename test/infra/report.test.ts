@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import { buildRunReport, renderDoctorReport, renderListReport, renderReport } from '../../src/infra/report.js';
+import { SddError } from '../../src/errors.js';
+import type { AssertResult, DoctorResult, InjectResult, ListResult } from '../../src/types.js';
+
+
+describe('report.ts', () => {
+  const failing: AssertResult = {
+    ok: false,
+    projectLabel: 'demo',
+    targetResults: [{
+      name: 'X', interfaceName: 'Example', dtsPath: 'types.d.ts', file: 'dts', ok: false,
+      missing: [{ prop: 'a', expected: '1', found: '2', line: 3, column: 3 }, { prop: 'gone', expected: 'true' }],
+      checked: ['a', 'b', 'gone'],
+    }],
+  };
+
+  it('builds a success report from an inject result', () => {
+    const report = buildRunReport('inject', { result: { updated: 0, projectLabel: 'demo', targetResults: [] } });
+    expect(report).toEqual({ version: 1, command: 'inject', ok: true, exitCode: 0, projectLabel: 'demo', updated: 0, targets: [] });
+  });
+
+  it('keeps the per-target results of ASSERT_FAILED and strips the log prefix', () => {
+    const error = new SddError('ASSERT_FAILED', 'assert failed', { details: { result: failing } });
+    expect(buildRunReport('assert', { error })).toEqual({
+      version: 1,
+      command: 'assert',
+      ok: false,
+      exitCode: 1,
+      projectLabel: 'demo',
+      targets: failing.targetResults,
+      error: { code: 'ASSERT_FAILED', message: 'assert failed' },
+    });
+    expect(buildRunReport('assert', { error: new Error('boom') })).toMatchObject({
+      exitCode: 6, targets: [], error: { code: null, message: 'boom' },
+    });
+  });
+
+  it('renders ndjson as one line per target plus a summary', () => {
+    const report = buildRunReport('assert', { error: new SddError('ASSERT_FAILED', 'assert failed', { details: { result: failing } }) });
+    const lines = renderReport(report, 'ndjson').split('\n').map((l) => JSON.parse(l));
+    expect(lines).toEqual([
+      { type: 'target', command: 'assert', ...failing.targetResults[0] },
+      { type: 'summary', version: 1, command: 'assert', ok: false, exitCode: 1, projectLabel: 'demo', error: { code: 'ASSERT_FAILED', message: 'assert failed' } },
+    ]);
+    expect(JSON.parse(renderReport(report, 'json'))).toEqual(report);
+  });
+
+  it('renders GitHub annotations at the member position', () => {
+    const error = new SddError('ASSERT_FAILED', 'assert failed', { details: { result: failing } });
+    expect(renderReport(buildRunReport('assert', { error }), 'github').split('\n')).toEqual([
+      '::error file=types.d.ts,line=3,col=3,title=sync-doc-defaults default-mismatch::X: Example.a expected @default 1 (found 2)',
+      '::error file=types.d.ts,title=sync-doc-defaults member-not-found::X: Example.gone is not declared (expected @default true)',
+    ]);
+    const loadError = buildRunReport('assert', { error: new SddError('DTS_NOT_FOUND', 'X: .d.ts not found: a,b\nhint') });
+    expect(renderReport(loadError, 'github')).toBe('::error title=sync-doc-defaults DTS_NOT_FOUND::X: .d.ts not found: a,b%0Ahint');
+  });
+
+  it('renders a SARIF 2.1.0 log', () => {
+    const error = new SddError('ASSERT_FAILED', 'assert failed', { details: { result: failing } });
+    const sarif = JSON.parse(renderReport(buildRunReport('assert', { error }), 'sarif'));
+    expect(sarif.version).toBe('2.1.0');
+    const [run] = sarif.runs;
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual(['default-mismatch', 'default-missing', 'member-not-found', 'pending-update']);
+    expect(run.results[0]).toEqual({
+      ruleId: 'default-mismatch',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'X: Example.a expected @default 1 (found 2)' },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'types.d.ts', uriBaseId: '%SRCROOT%' },
+          region: { startLine: 3, startColumn: 3 },
+        },
+      }],
+    });
+    expect(run.results[1].locations[0].physicalLocation.region).toBeUndefined();
+    expect(run.invocations).toEqual([{ executionSuccessful: true, exitCode: 1 }]);
+  });
+
+  it('renders JUnit XML with a testcase per checked property', () => {
+    const error = new SddError('ASSERT_FAILED', 'assert failed', { details: { result: failing } });
+    expect(renderReport(buildRunReport('assert', { error }), 'junit')).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="sync-doc-defaults assert" tests="3" failures="2" errors="0" skipped="0">',
+      '  <testsuite name="X (types.d.ts)" tests="3" failures="2" errors="0" skipped="0">',
+      '    <testcase name="a" classname="Example" file="types.d.ts" line="3">',
+      '      <failure message="X: Example.a expected @default 1 (found 2)" type="default-mismatch">expected: 1&#10;found: 2</failure>',
+      '    </testcase>',
+      '    <testcase name="b" classname="Example" file="types.d.ts"/>',
+      '    <testcase name="gone" classname="Example" file="types.d.ts">',
+      '      <failure message="X: Example.gone is not declared (expected @default true)" type="member-not-found">expected: true&#10;found: (missing)</failure>',
+      '    </testcase>',
+      '  </testsuite>',
+      '</testsuites>',
+    ].join('\n'));
+
+    const loadError = renderReport(buildRunReport('assert', { error: new SddError('DTS_NOT_FOUND', 'X: <types.d.ts> not found') }), 'junit');
+    expect(loadError).toContain('<error message="X: &lt;types.d.ts&gt; not found" type="DTS_NOT_FOUND"/>');
+    expect(loadError).toContain('<testsuites name="sync-doc-defaults assert" tests="1" failures="0" errors="1" skipped="0">');
+  });
+
+  it('reports the pending changes of a failed check', () => {
+    const result: InjectResult = {
+      updated: 1,
+      targetResults: [{
+        name: 'X', interfaceName: 'Example', dtsPath: 'types.d.ts', file: 'dts', updated: 1,
+        changes: [{ prop: 'a', before: '2', after: '1' }], missing: [],
+      }],
+      patch: 'diff --git a/types.d.ts b/types.d.ts\n',
+    };
+    const error = new SddError('CHECK_FAILED', 'check failed: 1 update(s) pending in types.d.ts', { details: { result } });
+    const report = buildRunReport('check', { error });
+    expect(report).toMatchObject({ command: 'check', ok: false, exitCode: 1, updated: 1, patch: result.patch });
+    expect(renderReport(report, 'github')).toBe(
+      '::error file=types.d.ts,title=sync-doc-defaults pending-update::X: Example.a: @default would change from 2 to 1 (run sync-doc-defaults inject)',
+    );
+  });
+
+  it('renders a list result as a table with its mismatches, or as JSON', () => {
+    const result: ListResult = {
+      configPath: 'docdefaults.config.mjs',
+      tsconfig: 'tsconfig.json',
+      rootDir: 'src',
+      outDir: 'dist',
+      tsMode: 'auto',
+      defaults: [{ path: 'src/constants.ts', loadedPath: 'dist/constants.js', loader: 'built-js' }],
+      targets: [{
+        name: 'X', interfaceName: 'Example', kind: 'interface', defaults: 'src/constants.ts', member: 'DEFAULTS', mode: 'dts', types: 'src/types.ts',
+        files: [{ file: 'dts', path: 'dist/types.d.ts', inferred: true, exists: true }],
+        keys: ['a', 'b'], members: ['a', 'c'], matched: ['a'], keysWithoutMember: ['b'], membersWithoutKey: ['c'], problems: [],
+      }],
+    };
+    const text = renderListReport(result, 'text');
+    expect(text).toContain('dist/constants.js (built-js)');
+    expect(text).toContain('1/2 matched');
+    expect(text).toMatch(/keys without member: b/);
+    expect(text).toMatch(/members without key: c/);
+    expect(JSON.parse(renderListReport(result, 'json'))).toEqual({ version: 1, command: 'list', ...result });
+  });
+
+  it('renders a doctor checklist with the fixes of failing checks', () => {
+    const result: DoctorResult = {
+      ok: false,
+      checks: [
+        { id: 'config', status: 'pass', message: 'docdefaults.config.json (1 target(s))' },
+        { id: 'tsx', status: 'warn', message: 'not installed', fix: 'pnpm add -D tsx' },
+        { id: 'target', target: 'X', status: 'fail', message: '.d.ts not found: types.d.ts', fix: 'Build the project\nor correct "dts"' },
+      ],
+    };
+    expect(renderDoctorReport(result, 'text').split('\n')).toEqual([
+      'PASS  config    docdefaults.config.json (1 target(s))',
+      'WARN  tsx       not installed',
+      '                fix: pnpm add -D tsx',
+      'FAIL  target X  .d.ts not found: types.d.ts',
+      '                fix: Build the project',
+      '                     or correct "dts"',
+      '',
+      '1 passed, 1 warning(s), 1 failed',
+    ]);
+    expect(JSON.parse(renderDoctorReport(result, 'json'))).toEqual({ version: 1, command: 'doctor', ...result });
+  });
+});
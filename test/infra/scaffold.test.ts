@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findDeclaredTypes,
+  findDefaultsExports,
+  matchDefaultsToTypes,
+  renderConfigFile,
+} from '../../src/infra/scaffold.js';
+import type { DocDefaultsConfig } from '../../src/types.js';
+
+
+describe('scaffold.ts', () => {
+  it('lists the top-level keys of exported *DEFAULTS* objects', () => {
+    const text = [
+      `export const CLIENT_DEFAULTS = {`,
+      `  timeout: 30_000, // ms, not a key: x`,
+      `  'base-url': 'https://example.com/{v}',`,
+      `  retry: { attempts: 3, delays: [1, 2] },`,
+      `  /* comment, with: commas */ onError() {},`,
+      `  ...SHARED,`,
+      `  [computed]: 1,`,
+      `} as const;`,
+      `export const loggerDefaults: Partial<LoggerOptions> = Object.freeze({ level: 'info' });`,
+      `export const NOT_AN_OBJECT_DEFAULTS = [1, 2];`,
+      `export const UNRELATED = { a: 1 };`,
+      `const PRIVATE_DEFAULTS = { a: 1 };`,
+    ].join('\n');
+    expect(findDefaultsExports(text, 'src/constants.ts')).toEqual([
+      { file: 'src/constants.ts', member: 'CLIENT_DEFAULTS', keys: ['timeout', 'base-url', 'retry', 'onError'] },
+      { file: 'src/constants.ts', member: 'loggerDefaults', keys: ['level'] },
+    ]);
+  });
+
+  it('lists exported interfaces and type aliases with their members', () => {
+    const text = `export interface A {\n  a?: number;\n  b?: string;\n}\ninterface Hidden {\n  x: 1;\n}\nexport type B = { c?: boolean; };\n`;
+    expect(findDeclaredTypes(text, 'src/types.ts')).toEqual([
+      { file: 'src/types.ts', name: 'A', members: ['a', 'b'] },
+      { file: 'src/types.ts', name: 'B', members: ['c'] },
+    ]);
+  });
+
+  it('matches each export to a type declaring all of its keys, preferring similar names', () => {
+    const { candidates, unmatched } = matchDefaultsToTypes(
+      [
+        { file: 'src/c.ts', member: 'CLIENT_DEFAULTS', keys: ['timeout'] },
+        { file: 'src/c.ts', member: 'DEFAULTS', keys: ['timeout', 'retries'] },
+        { file: 'src/c.ts', member: 'ORPHAN_DEFAULTS', keys: ['nope'] },
+      ],
+      [
+        { file: 'src/t.ts', name: 'ServerOptions', members: ['timeout', 'retries', 'port'] },
+        { file: 'src/t.ts', name: 'BaseOptions', members: ['timeout', 'retries'] },
+        { file: 'src/t.ts', name: 'ClientOptions', members: ['timeout', 'retries', 'agent'] },
+      ],
+    );
+    expect(candidates).toEqual([
+      { defaults: 'src/c.ts', member: 'CLIENT_DEFAULTS', types: 'src/t.ts', interface: 'ClientOptions', keys: ['timeout'] },
+      { defaults: 'src/c.ts', member: 'DEFAULTS', types: 'src/t.ts', interface: 'BaseOptions', keys: ['timeout', 'retries'] },
+    ]);
+    expect(unmatched.map((e) => e.member)).toEqual(['ORPHAN_DEFAULTS']);
+  });
+
+  it('renders the config in each file format', () => {
+    const config: DocDefaultsConfig = {
+      defaults: 'src/constants.ts',
+      targets: [{ name: 'A', types: 'src/types.ts', interface: 'A', member: 'A_DEFAULTS' }],
+    };
+    expect(JSON.parse(renderConfigFile(config, 'json'))).toEqual(config);
+    const mjs = renderConfigFile(config, 'mjs');
+    expect(mjs).toMatch(/^\/\*\* @type \{import\('sync-doc-defaults'\)\.DocDefaultsConfig\} \*\/\nexport default \{\n  defaults: "src\/constants\.ts",/);
+    expect(renderConfigFile(config, 'cjs')).toContain('\nmodule.exports = {\n');
+    expect(renderConfigFile(config, 'ts')).toContain(`import type { DocDefaultsConfig } from 'sync-doc-defaults';\n\nconst config: DocDefaultsConfig = {`);
+    // the module formats evaluate to the same object
+    expect(new Function(`return ${mjs.replace(/^[\s\S]*?export default /, '').replace(/;\n$/, '')}`)()).toEqual(config);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { collectImportGraph, startWatchLoop } from '../../src/infra/watch.js';
+import { createLogger } from '../../src/infra/log.js';
+import { createTempDirectory, write } from '../utils.js';
+
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('timed out');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('watch.ts', () => {
+  let tempDirPath: string;
+
+  beforeEach(async () => {
+    tempDirPath = await createTempDirectory();
+  });
+
+  afterEach(async () => {
+    try { await fs.rm(tempDirPath, { recursive: true, force: true }); } catch {}
+  });
+
+  it('collects the local modules imported by the entries, mapping .js specifiers to .ts sources', async () => {
+    const file = (name: string) => path.join(tempDirPath, name);
+    await write(file('src/constants.ts'), `import { A } from './a.js';\nexport * from "./b";\nconst c = require('./c.cjs');\nimport x from 'pkg';\n`);
+    await write(file('src/a.ts'), `import { D } from '../shared/index.js';\nexport const A = D;\n`);
+    await write(file('src/b/index.ts'), `export const B = await import('../constants.js');\n`);
+    await write(file('src/c.cjs'), `module.exports = 1;\n`);
+    await write(file('shared/index.ts'), `export const D = 1;\n`);
+
+    expect(collectImportGraph([file('src/constants.ts'), file('dist/constants.js')]).sort()).toEqual([
+      file('shared/index.ts'),
+      file('src/a.ts'),
+      file('src/b/index.ts'),
+      file('src/c.cjs'),
+      file('src/constants.ts'),
+    ].sort());
+  });
+
+  it('runs the affected targets after changes, ignoring unchanged contents and its own writes', async () => {
+    const file = (name: string) => path.join(tempDirPath, name);
+    await write(file('config.json'), '{}');
+    await write(file('defaults.js'), 'export const D = 1;');
+    await write(file('b-defaults.js'), 'export const B = 1;');
+    await write(file('a.d.ts'), 'a');
+    await write(file('b.d.ts'), 'b');
+    const runs: Array<string[] | undefined> = [];
+    const watcher = await startWatchLoop({
+      plan: async () => ({
+        configPath: file('config.json'),
+        targets: [
+          { name: 'A', files: [file('a.d.ts')], defaults: [file('defaults.js')] },
+          { name: 'B', files: [file('b.d.ts'), file('out/b.d.ts')], defaults: [file('b-defaults.js'), file('defaults.js')] },
+        ],
+      }),
+      run: async (targets) => {
+        runs.push(targets);
+        // like inject: rewrites the files of the targets it runs
+        if (!targets || targets.includes('A')) await fs.writeFile(file('a.d.ts'), 'a + docs');
+      },
+      debounceMs: 30,
+      logger: createLogger({ quiet: true }),
+    });
+
+    try {
+      expect(runs).toEqual([undefined]);
+
+      await fs.writeFile(file('b.d.ts'), 'b2');
+      await waitFor(() => runs.length === 2);
+      expect(runs[1]).toEqual(['B']);
+
+      await fs.writeFile(file('a.d.ts'), 'a + docs'); // same contents
+      await fs.writeFile(file('a.d.ts'), 'a2');
+      await waitFor(() => runs.length === 3);
+      expect(runs[2]).toEqual(['A']);
+
+      // a directory created after the watch started
+      await write(file('out/b.d.ts'), 'b');
+      await waitFor(() => runs.length === 4);
+      expect(runs[3]).toEqual(['B']);
+
+      await fs.writeFile(file('defaults.js'), 'export const D = 2;');
+      await waitFor(() => runs.length === 5);
+      expect(runs[4]).toBeUndefined();
+
+      await fs.writeFile(file('b-defaults.js'), 'export const B = 2;');
+      await waitFor(() => runs.length === 6);
+      expect(runs[5]).toEqual(['B']);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(runs).toHaveLength(6);
+    } finally {
+      watcher.close();
+    }
+  });
+});